@@ -27,6 +27,7 @@ export default [
         setTimeout: 'readonly',
         setInterval: 'readonly',
         clearTimeout: 'readonly',
+        clearInterval: 'readonly',
         Promise: 'readonly',
         Map: 'readonly',
         Date: 'readonly',
@@ -40,6 +41,13 @@ export default [
         fetch: 'readonly',
         Notification: 'readonly',
         Storage: 'readonly',
+        HTMLElement: 'readonly',
+        HTMLDivElement: 'readonly',
+        History: 'readonly',
+        KeyboardEvent: 'readonly',
+        Node: 'readonly',
+        BroadcastChannel: 'readonly',
+        MessageEvent: 'readonly',
       },
     },
     plugins: {
@@ -0,0 +1,23 @@
+/**
+ * Analytics module exports
+ */
+
+export {
+  AnalyticsEventQueue,
+  createQueuedAnalytics,
+  ANALYTICS_QUEUE_STORAGE_KEY,
+  type AnalyticsQueueMerge,
+  type AnalyticsQueueOptions,
+  type AnalyticsQueueOverflow,
+  type AnalyticsQueueStorage,
+  type QueuedAnalyticsEvent,
+  type QueuedAnalyticsOptions,
+} from './queue.js';
+
+export {
+  trackPageViews,
+  normalizePagePath,
+  DEFAULT_PAGE_SEGMENT_PATTERNS,
+  type PageSegmentPattern,
+  type PageViewTrackerOptions,
+} from './pageViews.js';
@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Automatic page-view tracking for single-page apps
+ * @description Logs a `page_view` for every History API navigation
+ * (`pushState`, `replaceState`, `popstate`), with dynamic path segments
+ * normalized so reports group `/users/42` and `/users/43` together.
+ *
+ * @example
+ * ```ts
+ * const stop = trackPageViews(analytics, {
+ *   routes: ['/users/:id', '/posts/:slug'],
+ * });
+ * ```
+ */
+
+import type {
+  AnalyticsEventParams,
+  FirebaseAnalyticsService,
+} from '@sudobility/di/web';
+
+/**
+ * Rewrites a path segment matching `pattern` to `replacement`
+ */
+export interface PageSegmentPattern {
+  pattern: RegExp;
+  replacement: string;
+}
+
+/**
+ * Options for {@link trackPageViews}
+ */
+export interface PageViewTrackerOptions {
+  /**
+   * Route templates such as `'/users/:id'`. A path matching a template is
+   * reported as the template; `:params` match non-empty segments only.
+   */
+  routes?: string[];
+
+  /**
+   * Rules for segments of paths matching no route; replaces ids, UUIDs and
+   * hashes with `:id` by default
+   */
+  segmentPatterns?: readonly PageSegmentPattern[];
+
+  /**
+   * Include the query string in the reported path, and count query changes
+   * as new views
+   *
+   * @default false
+   */
+  includeSearch?: boolean;
+
+  /**
+   * Event name
+   *
+   * @default 'page_view'
+   */
+  eventName?: string;
+
+  /**
+   * Log the page that is open when tracking starts
+   *
+   * @default true
+   */
+  trackInitialPage?: boolean;
+
+  /** Extra params for each view, e.g. the signed-in user's plan */
+  params?: (path: string) => AnalyticsEventParams;
+}
+
+/** Segment rules used when no `segmentPatterns` are given. */
+export const DEFAULT_PAGE_SEGMENT_PATTERNS: readonly PageSegmentPattern[] = [
+  { pattern: /^\d+$/, replacement: ':id' },
+  {
+    pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    replacement: ':id',
+  },
+  { pattern: /^[0-9a-f]{16,}$/i, replacement: ':id' },
+];
+
+/**
+ * Path reported for a page: the matching route template, or the path with
+ * dynamic segments replaced
+ */
+export function normalizePagePath(
+  path: string,
+  {
+    routes = [],
+    segmentPatterns = DEFAULT_PAGE_SEGMENT_PATTERNS,
+  }: Pick<PageViewTrackerOptions, 'routes' | 'segmentPatterns'> = {}
+): string {
+  const segments = path.split('/');
+  const route = routes.find((template) => {
+    const parts = template.split('/');
+    return (
+      parts.length === segments.length &&
+      parts.every((part, index) =>
+        // Params need a value, so `/posts/` is not `/posts/:slug`
+        part.startsWith(':')
+          ? Boolean(segments[index])
+          : part === segments[index]
+      )
+    );
+  });
+  if (route) {
+    return route;
+  }
+  return segments
+    .map((segment) => {
+      const rule = segmentPatterns.find(({ pattern }) => pattern.test(segment));
+      return rule ? rule.replacement : segment;
+    })
+    .join('/');
+}
+
+/**
+ * Log a page view for every History API navigation
+ *
+ * Each view carries `page_path` (normalized), `page_location`, `page_title`,
+ * `page_referrer` (the previous page, or `document.referrer` for the first)
+ * and, after the first, `engagement_time_msec` spent on the previous page.
+ * Navigations that keep the URL path (and query, with `includeSearch`),
+ * such as `replaceState` for scroll state, are not logged again; moving
+ * from `/users/42` to `/users/43` is, although both report `/users/:id`.
+ *
+ * @param analytics - Service receiving the events, such as the
+ * `FirebaseAnalyticsService`
+ * @returns Stops tracking and restores the History API
+ */
+export function trackPageViews(
+  analytics: Pick<FirebaseAnalyticsService, 'trackEvent'>,
+  options: PageViewTrackerOptions = {}
+): () => void {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+  const {
+    includeSearch = false,
+    eventName = 'page_view',
+    trackInitialPage = true,
+  } = options;
+
+  let lastPage: string | null = null;
+  let lastLocation: string | null = null;
+  let lastViewAt = 0;
+  let pending: ReturnType<typeof setTimeout> | undefined;
+
+  // Pages are told apart by the URL, not the reported path
+  const currentPage = () =>
+    window.location.pathname + (includeSearch ? window.location.search : '');
+
+  const track = () => {
+    pending = undefined;
+    const { pathname, search, href } = window.location;
+    const page = currentPage();
+    if (page === lastPage) {
+      return;
+    }
+    const path =
+      normalizePagePath(pathname, options) + (includeSearch ? search : '');
+
+    const now = Date.now();
+    const params: AnalyticsEventParams = {
+      ...options.params?.(path),
+      page_path: path,
+      page_location: href,
+      page_title: document.title,
+    };
+    const referrer = lastLocation ?? document.referrer;
+    if (referrer) {
+      params.page_referrer = referrer;
+    }
+    if (lastPage !== null) {
+      params.engagement_time_msec = now - lastViewAt;
+    }
+    analytics.trackEvent(eventName, params);
+
+    lastPage = page;
+    lastLocation = href;
+    lastViewAt = now;
+  };
+
+  // Wait a tick so the router can update the title first
+  const schedule = () => {
+    if (pending === undefined) {
+      pending = setTimeout(track, 0);
+    }
+  };
+
+  const { history } = window;
+  const originalPushState = history.pushState;
+  const originalReplaceState = history.replaceState;
+  const pushState: History['pushState'] = function (this: History, ...args) {
+    originalPushState.apply(this, args);
+    schedule();
+  };
+  const replaceState: History['replaceState'] = function (
+    this: History,
+    ...args
+  ) {
+    originalReplaceState.apply(this, args);
+    schedule();
+  };
+  history.pushState = pushState;
+  history.replaceState = replaceState;
+  window.addEventListener('popstate', schedule);
+
+  if (trackInitialPage) {
+    track();
+  } else {
+    lastPage = currentPage();
+    lastLocation = window.location.href;
+    lastViewAt = Date.now();
+  }
+
+  return () => {
+    clearTimeout(pending);
+    window.removeEventListener('popstate', schedule);
+    // Leave wrappers installed later by other code in place
+    if (history.pushState === pushState) {
+      history.pushState = originalPushState;
+    }
+    if (history.replaceState === replaceState) {
+      history.replaceState = originalReplaceState;
+    }
+  };
+}
@@ -0,0 +1,341 @@
+/**
+ * @fileoverview Durable analytics event queue
+ * @description Buffers analytics events while the browser is offline,
+ * persists them through the storage service so they survive reloads, and
+ * sends them in order once the browser is back online.
+ *
+ * @example
+ * ```ts
+ * const queue = new AnalyticsEventQueue({ storage: getStorageService() });
+ * await queue.load();
+ * const analytics = initializeFirebaseAnalytics(() =>
+ *   createQueuedAnalytics(queue, () => getFirebaseService().analytics)
+ * );
+ * analytics.trackEvent('share', { method: 'link' }); // queued while offline
+ * ```
+ */
+
+import type {
+  AnalyticsEventParams,
+  AnalyticsService,
+} from '@sudobility/di/web';
+import type { KeyValueStorage } from '../storage/index.js';
+
+/**
+ * An event waiting to be sent
+ */
+export interface QueuedAnalyticsEvent {
+  name: string;
+  params?: AnalyticsEventParams;
+  /** When the event was logged (epoch ms) */
+  timestamp: number;
+}
+
+/**
+ * Which event to drop when the queue is full
+ *
+ * - `'drop-oldest'` -- make room for the new event
+ * - `'drop-newest'` -- keep the queue and discard the new event
+ */
+export type AnalyticsQueueOverflow = 'drop-oldest' | 'drop-newest';
+
+/**
+ * Combine a new event with the last queued one, e.g. to count repeated
+ * events instead of storing each. Return `null` to queue both.
+ */
+export type AnalyticsQueueMerge = (
+  last: QueuedAnalyticsEvent,
+  next: QueuedAnalyticsEvent
+) => QueuedAnalyticsEvent | null;
+
+/**
+ * Key/value store holding the queue, such as the DI storage service
+ */
+export type AnalyticsQueueStorage = KeyValueStorage;
+
+/**
+ * Options for {@link AnalyticsEventQueue}
+ */
+export interface AnalyticsQueueOptions {
+  /** Where events are persisted. Pass `null` to keep them in memory. */
+  storage?: AnalyticsQueueStorage | null;
+
+  /**
+   * Storage key holding the queue
+   *
+   * @default 'sudobility.analytics.queue'
+   */
+  storageKey?: string;
+
+  /**
+   * Most events kept
+   *
+   * @default 200
+   */
+  maxEvents?: number;
+
+  /**
+   * What to drop when the queue is full
+   *
+   * @default 'drop-oldest'
+   */
+  overflow?: AnalyticsQueueOverflow;
+
+  /** Merge policy for consecutive events, see {@link AnalyticsQueueMerge} */
+  merge?: AnalyticsQueueMerge;
+}
+
+/** Storage key used when none is configured. */
+export const ANALYTICS_QUEUE_STORAGE_KEY = 'sudobility.analytics.queue';
+
+/** Default number of events kept. */
+const DEFAULT_MAX_EVENTS = 200;
+
+/**
+ * Ordered, size-capped and optionally persisted list of analytics events
+ */
+export class AnalyticsEventQueue {
+  private events: QueuedAnalyticsEvent[] = [];
+  private flushing: Promise<number> | null = null;
+  /** Writes wait for load() so they don't overwrite the persisted queue. */
+  private loaded = false;
+  private readonly storage: AnalyticsQueueStorage | undefined;
+  private readonly storageKey: string;
+  private readonly maxEvents: number;
+  private readonly overflow: AnalyticsQueueOverflow;
+  private readonly merge: AnalyticsQueueMerge | undefined;
+
+  constructor(options: AnalyticsQueueOptions = {}) {
+    this.storage = options.storage ?? undefined;
+    this.storageKey = options.storageKey ?? ANALYTICS_QUEUE_STORAGE_KEY;
+    this.maxEvents = options.maxEvents ?? DEFAULT_MAX_EVENTS;
+    this.overflow = options.overflow ?? 'drop-oldest';
+    this.merge = options.merge;
+  }
+
+  /**
+   * Restore events persisted by an earlier visit, ahead of any queued since.
+   * Malformed or unreadable entries are ignored. Nothing is persisted until
+   * this has run.
+   */
+  async load(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+    try {
+      const raw = await this.storage.getItem(this.storageKey);
+      const stored = raw ? (JSON.parse(raw) as unknown) : null;
+      if (Array.isArray(stored)) {
+        this.events = [
+          ...(stored as QueuedAnalyticsEvent[]).filter(
+            (event) => typeof event?.name === 'string'
+          ),
+          ...this.events,
+        ].slice(-this.maxEvents);
+      }
+    } catch (error) {
+      console.warn('Failed to load queued analytics events:', error);
+    }
+    this.loaded = true;
+    this.persist();
+  }
+
+  /**
+   * Number of queued events
+   */
+  get size(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Queued events, oldest first
+   */
+  getEvents(): readonly QueuedAnalyticsEvent[] {
+    return this.events;
+  }
+
+  /**
+   * Queue an event, applying the merge and overflow policies
+   */
+  enqueue(name: string, params?: AnalyticsEventParams): void {
+    const event: QueuedAnalyticsEvent = { name, timestamp: Date.now() };
+    if (params) {
+      event.params = params;
+    }
+
+    const last = this.events[this.events.length - 1];
+    const merged = last && this.merge ? this.merge(last, event) : null;
+    if (merged) {
+      this.events = [...this.events.slice(0, -1), merged];
+    } else if (this.events.length < this.maxEvents) {
+      this.events = [...this.events, event];
+    } else if (this.overflow === 'drop-oldest') {
+      this.events = [...this.events.slice(1), event];
+    } else {
+      return;
+    }
+    this.persist();
+  }
+
+  /**
+   * Send queued events in order
+   *
+   * Stops at the first event `send` fails on, keeping it and the rest for
+   * the next flush. Concurrent calls share one flush.
+   *
+   * @returns Number of events sent
+   */
+  flush(
+    send: (name: string, params?: AnalyticsEventParams) => unknown
+  ): Promise<number> {
+    this.flushing ??= this.drain(send).finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Drop every queued event
+   */
+  clear(): void {
+    this.events = [];
+    void this.storage?.removeItem(this.storageKey);
+  }
+
+  private async drain(
+    send: (name: string, params?: AnalyticsEventParams) => unknown
+  ): Promise<number> {
+    let sent = 0;
+    while (this.events.length > 0) {
+      const [event] = this.events;
+      if (!event) {
+        break;
+      }
+      try {
+        await send(event.name, event.params);
+      } catch (error) {
+        console.warn('Failed to send queued analytics event:', error);
+        break;
+      }
+      // Events may have been dropped by overflow while sending
+      if (this.events[0] === event) {
+        this.events = this.events.slice(1);
+      }
+      sent++;
+    }
+    if (sent > 0) {
+      this.persist();
+    }
+    return sent;
+  }
+
+  private persist(): void {
+    if (!this.storage || !this.loaded) {
+      return;
+    }
+    const write = async () => {
+      if (this.events.length === 0) {
+        await this.storage?.removeItem(this.storageKey);
+      } else {
+        await this.storage?.setItem(
+          this.storageKey,
+          JSON.stringify(this.events)
+        );
+      }
+    };
+    write().catch((error: unknown) => {
+      console.warn('Failed to save queued analytics events:', error);
+    });
+  }
+}
+
+/**
+ * Options for {@link createQueuedAnalytics}
+ */
+export interface QueuedAnalyticsOptions {
+  /**
+   * Whether events can be sent now
+   *
+   * @default () => navigator.onLine
+   */
+  isOnline?: () => boolean;
+
+  /** Stops flushing on `online` events when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Route `logEvent` through a queue while offline or while no analytics
+ * service is available, flushing it whenever the browser comes back online
+ *
+ * The result is an `AnalyticsService`, so a `FirebaseAnalyticsService`
+ * built on it queues every `track*` call. Queued events from earlier visits
+ * are flushed right away when online. User ids and properties go straight
+ * to the service.
+ *
+ * @param queue - Queue holding events that could not be sent
+ * @param getService - Current analytics service. Returning `null` or
+ * throwing, as `getFirebaseService()` does before initialization, counts as
+ * no service yet.
+ */
+export function createQueuedAnalytics(
+  queue: AnalyticsEventQueue,
+  getService: () => AnalyticsService | null,
+  { isOnline = defaultIsOnline, signal }: QueuedAnalyticsOptions = {}
+): AnalyticsService {
+  const currentService = (): AnalyticsService | null => {
+    try {
+      return getService();
+    } catch {
+      return null;
+    }
+  };
+
+  const flush = () => {
+    if (queue.size === 0 || !isOnline()) {
+      return;
+    }
+    const service = currentService();
+    if (service) {
+      void queue.flush((name, params) => service.logEvent(name, params));
+    }
+  };
+
+  const logEvent = (name: string, params?: AnalyticsEventParams) => {
+    const service = currentService();
+    if (!service || !isOnline() || queue.size > 0) {
+      // Keep the order: newer events wait behind the queued ones
+      queue.enqueue(name, params);
+      flush();
+      return;
+    }
+    try {
+      service.logEvent(name, params);
+    } catch {
+      queue.enqueue(name, params);
+    }
+  };
+
+  if (typeof window !== 'undefined' && !signal?.aborted) {
+    window.addEventListener('online', flush);
+    signal?.addEventListener(
+      'abort',
+      () => window.removeEventListener('online', flush),
+      { once: true }
+    );
+  }
+  flush();
+
+  return {
+    logEvent,
+    setUserProperties: (properties) =>
+      currentService()?.setUserProperties(properties),
+    setUserId: (userId) => currentService()?.setUserId(userId),
+    // Events are accepted, and queued, while the service is unavailable
+    isSupported: () => true,
+  };
+}
+
+function defaultIsOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
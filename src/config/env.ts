@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Environment-driven configuration
+ * @description Builds `WebAppInitOptions` from the standard `VITE_*`
+ * variables so every app uses the same names, and shares the resolved values
+ * with the service worker Vite plugin.
+ *
+ * Variables (a `_DEVELOPMENT`, `_STAGING` or `_PRODUCTION` suffix overrides
+ * the plain variable in that environment):
+ *
+ * | Variable | Required |
+ * |----------|----------|
+ * | `VITE_APP_ENV` | no -- `development`, `staging` or `production`; defaults to Vite's `MODE` |
+ * | `VITE_FIREBASE_API_KEY` | yes |
+ * | `VITE_FIREBASE_AUTH_DOMAIN` | yes |
+ * | `VITE_FIREBASE_PROJECT_ID` | yes |
+ * | `VITE_FIREBASE_APP_ID` | yes |
+ * | `VITE_FIREBASE_STORAGE_BUCKET` | yes |
+ * | `VITE_FIREBASE_MESSAGING_SENDER_ID` | yes |
+ * | `VITE_FIREBASE_MEASUREMENT_ID` | no |
+ * | `VITE_FIREBASE_VAPID_KEY` | no -- web push key for Firebase Cloud Messaging |
+ * | `VITE_REVENUECAT_API_KEY` | with `revenueCat` options |
+ * | `VITE_REVENUECAT_API_KEY_SANDBOX` | no |
+ *
+ * This module has no runtime dependencies, so the Vite plugin can load it
+ * in Node.
+ */
+
+import type {
+  RevenueCatConfig,
+  WebAppInitOptions,
+} from '../initialize/initialize.js';
+
+/**
+ * Deployment environment
+ */
+export type WebAppEnvironment = 'development' | 'staging' | 'production';
+
+/**
+ * Environment variables, such as `import.meta.env` or Vite's `loadEnv()`
+ */
+export type WebAppEnv = Readonly<Record<string, string | boolean | undefined>>;
+
+/**
+ * Options for {@link readWebAppEnv}
+ */
+export interface WebAppEnvReadOptions {
+  /** Use this environment instead of detecting it */
+  environment?: WebAppEnvironment;
+
+  /** Variables required on top of the standard ones */
+  required?: string[];
+}
+
+/**
+ * Options for {@link createWebAppInitOptions}
+ */
+export interface WebAppEnvOptions extends WebAppEnvReadOptions {
+  /**
+   * RevenueCat settings not read from the environment. When given,
+   * `VITE_REVENUECAT_API_KEY` is required; otherwise RevenueCat is only
+   * configured if the key is set.
+   */
+  revenueCat?: Omit<
+    RevenueCatConfig,
+    'apiKey' | 'apiKeySandbox' | 'isProduction'
+  >;
+}
+
+/**
+ * Variables resolved for one environment
+ */
+export interface WebAppEnvValues {
+  environment: WebAppEnvironment;
+  isProduction: boolean;
+  /** Standard variables that are set, by their plain name */
+  values: Readonly<Record<string, string>>;
+}
+
+/** Firebase config fields and the variables they are read from. */
+export const FIREBASE_ENV_KEYS = {
+  apiKey: 'VITE_FIREBASE_API_KEY',
+  authDomain: 'VITE_FIREBASE_AUTH_DOMAIN',
+  projectId: 'VITE_FIREBASE_PROJECT_ID',
+  storageBucket: 'VITE_FIREBASE_STORAGE_BUCKET',
+  messagingSenderId: 'VITE_FIREBASE_MESSAGING_SENDER_ID',
+  appId: 'VITE_FIREBASE_APP_ID',
+  measurementId: 'VITE_FIREBASE_MEASUREMENT_ID',
+  vapidKey: 'VITE_FIREBASE_VAPID_KEY',
+} as const;
+
+/** RevenueCat config fields and the variables they are read from. */
+export const REVENUECAT_ENV_KEYS = {
+  apiKey: 'VITE_REVENUECAT_API_KEY',
+  apiKeySandbox: 'VITE_REVENUECAT_API_KEY_SANDBOX',
+} as const;
+
+/** Variable selecting the environment. */
+export const APP_ENV_KEY = 'VITE_APP_ENV';
+
+/** Variables every app must set: the fields `FirebaseConfig` requires. */
+const REQUIRED_KEYS = [
+  FIREBASE_ENV_KEYS.apiKey,
+  FIREBASE_ENV_KEYS.authDomain,
+  FIREBASE_ENV_KEYS.projectId,
+  FIREBASE_ENV_KEYS.storageBucket,
+  FIREBASE_ENV_KEYS.messagingSenderId,
+  FIREBASE_ENV_KEYS.appId,
+];
+
+const ENVIRONMENT_ALIASES: Record<string, WebAppEnvironment> = {
+  development: 'development',
+  dev: 'development',
+  staging: 'staging',
+  stage: 'staging',
+  production: 'production',
+  prod: 'production',
+};
+
+/**
+ * Detect the environment from `VITE_APP_ENV`, then Vite's `MODE`, then
+ * `PROD`
+ *
+ * @throws Error if `VITE_APP_ENV` names an unknown environment
+ */
+export function resolveWebAppEnvironment(env: WebAppEnv): WebAppEnvironment {
+  const appEnv = env[APP_ENV_KEY];
+  if (typeof appEnv === 'string' && appEnv !== '') {
+    const environment = ENVIRONMENT_ALIASES[appEnv.toLowerCase()];
+    if (!environment) {
+      throw new Error(
+        `Unknown ${APP_ENV_KEY} "${appEnv}"; expected development, staging or production`
+      );
+    }
+    return environment;
+  }
+  const mode = env.MODE;
+  const fromMode =
+    typeof mode === 'string' ? ENVIRONMENT_ALIASES[mode.toLowerCase()] : null;
+  return fromMode ?? (env.PROD === true ? 'production' : 'development');
+}
+
+/**
+ * Resolve the standard variables for the current environment
+ *
+ * @throws Error listing every required variable that is missing
+ */
+export function readWebAppEnv(
+  env: WebAppEnv,
+  options: WebAppEnvReadOptions = {}
+): WebAppEnvValues {
+  const environment = options.environment ?? resolveWebAppEnvironment(env);
+  const suffix = `_${environment.toUpperCase()}`;
+
+  const values: Record<string, string> = {};
+  const keys = [
+    ...Object.values(FIREBASE_ENV_KEYS),
+    ...Object.values(REVENUECAT_ENV_KEYS),
+    ...(options.required ?? []),
+  ];
+  for (const key of keys) {
+    const value = nonEmpty(env[key + suffix]) ?? nonEmpty(env[key]);
+    if (value != null) {
+      values[key] = value;
+    }
+  }
+
+  const missing = [...REQUIRED_KEYS, ...(options.required ?? [])].filter(
+    (key, index, all) => values[key] == null && all.indexOf(key) === index
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required environment variable(s) for ${environment}: ${missing.join(', ')}. ` +
+        `Set them in your .env file, or with a ${suffix} suffix for this environment only.`
+    );
+  }
+
+  return { environment, isProduction: environment === 'production', values };
+}
+
+/**
+ * Build initialization options from the standard `VITE_*` variables
+ *
+ * @example
+ * ```ts
+ * await initializeWebApp({
+ *   ...createWebAppInitOptions(import.meta.env, {
+ *     revenueCat: { lazy: true },
+ *   }),
+ *   registerServiceWorker: true,
+ * });
+ * ```
+ *
+ * @throws Error listing every required variable that is missing
+ */
+export function createWebAppInitOptions(
+  env: WebAppEnv,
+  options: WebAppEnvOptions = {}
+): WebAppInitOptions {
+  const { revenueCat, ...readOptions } = options;
+  const required = [...(readOptions.required ?? [])];
+  if (revenueCat) {
+    required.push(REVENUECAT_ENV_KEYS.apiKey);
+  }
+  const { isProduction, values } = readWebAppEnv(env, {
+    ...readOptions,
+    required,
+  });
+
+  // readWebAppEnv() already threw for missing required variables
+  const valueOf = (key: string): string => {
+    const value = values[key];
+    if (value == null) {
+      throw new Error(`Missing required environment variable ${key}`);
+    }
+    return value;
+  };
+  const firebaseConfig: WebAppInitOptions['firebaseConfig'] = {
+    apiKey: valueOf(FIREBASE_ENV_KEYS.apiKey),
+    authDomain: valueOf(FIREBASE_ENV_KEYS.authDomain),
+    projectId: valueOf(FIREBASE_ENV_KEYS.projectId),
+    storageBucket: valueOf(FIREBASE_ENV_KEYS.storageBucket),
+    messagingSenderId: valueOf(FIREBASE_ENV_KEYS.messagingSenderId),
+    appId: valueOf(FIREBASE_ENV_KEYS.appId),
+  };
+  const measurementId = values[FIREBASE_ENV_KEYS.measurementId];
+  if (measurementId != null) {
+    firebaseConfig.measurementId = measurementId;
+  }
+  const vapidKey = values[FIREBASE_ENV_KEYS.vapidKey];
+  if (vapidKey != null) {
+    firebaseConfig.vapidKey = vapidKey;
+  }
+  const initOptions: WebAppInitOptions = { firebaseConfig };
+
+  const apiKey = values[REVENUECAT_ENV_KEYS.apiKey];
+  if (apiKey != null) {
+    const revenueCatConfig: RevenueCatConfig = {
+      ...revenueCat,
+      apiKey,
+      isProduction,
+    };
+    const apiKeySandbox = values[REVENUECAT_ENV_KEYS.apiKeySandbox];
+    if (apiKeySandbox != null) {
+      revenueCatConfig.apiKeySandbox = apiKeySandbox;
+    }
+    initOptions.revenueCatConfig = revenueCatConfig;
+  }
+  return initOptions;
+}
+
+/** String value, or `undefined` when unset or empty. */
+function nonEmpty(value: string | boolean | undefined): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
@@ -0,0 +1,17 @@
+/**
+ * Config module exports
+ */
+
+export {
+  createWebAppInitOptions,
+  readWebAppEnv,
+  resolveWebAppEnvironment,
+  APP_ENV_KEY,
+  FIREBASE_ENV_KEYS,
+  REVENUECAT_ENV_KEYS,
+  type WebAppEnv,
+  type WebAppEnvironment,
+  type WebAppEnvOptions,
+  type WebAppEnvReadOptions,
+  type WebAppEnvValues,
+} from './env.js';
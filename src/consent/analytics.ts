@@ -0,0 +1,158 @@
+/**
+ * Consent-gated analytics
+ *
+ * Stands in for an analytics service, such as `FirebaseAnalyticsService`
+ * or the `AnalyticsService` it is built on, until the `analytics`
+ * category is granted: calls made before that are queued and replayed in
+ * order once the user consents, and dropped if they never do.
+ */
+
+import type { ConsentManager } from './consent.js';
+
+/**
+ * Options for {@link createConsentGatedAnalytics}
+ */
+export interface ConsentGatedAnalyticsOptions {
+  /**
+   * Calls kept while waiting for consent; the oldest are dropped first
+   *
+   * @default 100
+   */
+  maxQueuedEvents?: number;
+
+  /** Stops following consent changes when aborted */
+  signal?: AbortSignal;
+
+  /**
+   * Called after consent is revoked, e.g. to drop the analytics singleton
+   * and switch collection off with {@link setAnalyticsCollectionEnabled}
+   */
+  onRevoke?: () => void;
+}
+
+/** Default number of analytics calls kept while waiting for consent. */
+const DEFAULT_MAX_QUEUED_EVENTS = 100;
+
+/** An analytics call made before consent. */
+interface QueuedCall {
+  method: string | symbol;
+  args: unknown[];
+}
+
+/** Global gtag.js function Firebase Analytics sends through. */
+type Gtag = (...args: unknown[]) => void;
+
+/**
+ * Switch Firebase Analytics collection for a measurement id on or off
+ *
+ * Sets the `ga-disable-<measurementId>` flag gtag.js honors. Switching off
+ * also clears the user id and the `user_hash` property set with it, so
+ * later hits cannot be tied to the user.
+ *
+ * @param measurementId - `firebaseConfig.measurementId`; nothing happens
+ * without one, since analytics cannot run without it
+ */
+export function setAnalyticsCollectionEnabled(
+  measurementId: string | undefined,
+  enabled: boolean
+): void {
+  if (!measurementId || typeof window === 'undefined') {
+    return;
+  }
+  const globals = window as unknown as Record<string, unknown>;
+  if (!enabled && typeof globals['gtag'] === 'function') {
+    // Same call Firebase makes for setUserId(null)
+    (globals['gtag'] as Gtag)('config', measurementId, {
+      update: true,
+      user_id: null,
+      user_properties: { user_hash: null },
+    });
+  }
+  globals[`ga-disable-${measurementId}`] = !enabled;
+}
+
+/**
+ * Wrap analytics so it only starts once consent is granted
+ *
+ * Methods of the returned service can be called right away. While
+ * `analytics` is not granted they are queued; on grant `initialize` runs
+ * and the queue is replayed. Revoking consent clears the queue, drops the
+ * real service and calls `onRevoke`; later calls are queued again.
+ *
+ * @param consent - Consent manager deciding whether analytics may run
+ * @param initialize - Creates the real service, e.g. `initializeFirebaseAnalytics`
+ */
+export function createConsentGatedAnalytics<T extends object>(
+  consent: ConsentManager,
+  initialize: () => T,
+  {
+    maxQueuedEvents = DEFAULT_MAX_QUEUED_EVENTS,
+    signal,
+    onRevoke,
+  }: ConsentGatedAnalyticsOptions = {}
+): T {
+  let service: T | null = null;
+  let queue: QueuedCall[] = [];
+
+  const call = (target: object, method: string | symbol, args: unknown[]) => {
+    const fn = Reflect.get(target, method) as unknown;
+    return typeof fn === 'function'
+      ? (fn as (...args: unknown[]) => unknown).apply(target, args)
+      : undefined;
+  };
+
+  const start = () => {
+    service = initialize();
+    const pending = queue;
+    queue = [];
+    for (const { method, args } of pending) {
+      call(service, method, args);
+    }
+  };
+
+  const stop = () => {
+    service = null;
+    queue = [];
+    onRevoke?.();
+  };
+
+  if (consent.isGranted('analytics')) {
+    start();
+  }
+
+  if (!signal?.aborted) {
+    const unsubscribe = consent.subscribe((choices, previous) => {
+      if (choices.analytics && !previous.analytics) {
+        start();
+      } else if (!choices.analytics && previous.analytics) {
+        stop();
+      }
+    });
+    signal?.addEventListener('abort', unsubscribe, { once: true });
+  }
+
+  return new Proxy({} as T, {
+    get(_target, method) {
+      if (service) {
+        const value = Reflect.get(service, method) as unknown;
+        return typeof value === 'function'
+          ? (value as (...args: unknown[]) => unknown).bind(service)
+          : value;
+      }
+      // Not a thenable, so the stand-in can be returned from async code
+      if (method === 'then') {
+        return undefined;
+      }
+      return (...args: unknown[]) => {
+        if (service) {
+          return call(service, method, args);
+        }
+        queue.push({ method, args });
+        if (queue.length > maxQueuedEvents) {
+          queue.shift();
+        }
+        return undefined;
+      };
+    },
+  });
+}
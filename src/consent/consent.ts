@@ -0,0 +1,308 @@
+/**
+ * @fileoverview Consent manager for GDPR/ePrivacy-gated services
+ * @description Tracks which consent categories the user granted, persists
+ * the choices across sessions and notifies subscribers when they
+ * change, so analytics, messaging and subscriptions can wait for consent.
+ *
+ * @example
+ * ```ts
+ * const consent = getConsentManager();
+ *
+ * // From the cookie banner
+ * acceptButton.onclick = () => consent.grantAll();
+ * rejectButton.onclick = () => consent.revokeAll();
+ *
+ * // Later, from the privacy settings page
+ * consent.update({ analytics: false });
+ * ```
+ */
+
+import type { KeyValueStorage } from '../storage/index.js';
+
+/**
+ * Consent category gating a group of services
+ *
+ * - `'analytics'` -- Firebase Analytics
+ * - `'messaging'` -- Firebase Cloud Messaging
+ * - `'subscriptions'` -- RevenueCat
+ */
+export type ConsentCategory = 'analytics' | 'messaging' | 'subscriptions';
+
+/** Every consent category, in display order. */
+export const CONSENT_CATEGORIES: readonly ConsentCategory[] = [
+  'analytics',
+  'messaging',
+  'subscriptions',
+];
+
+/**
+ * Whether each category is granted
+ */
+export type ConsentChoices = Record<ConsentCategory, boolean>;
+
+/**
+ * Listener called when choices change, with the new and previous choices
+ */
+export type ConsentListener = (
+  choices: ConsentChoices,
+  previous: ConsentChoices
+) => void;
+
+/**
+ * Key/value store holding the choices, such as `window.localStorage`
+ */
+export type ConsentStorage = KeyValueStorage;
+
+/**
+ * Options for {@link ConsentManager}
+ */
+export interface ConsentManagerOptions {
+  /**
+   * Choices used until the user decides, e.g. granted outside the EU.
+   * Categories not listed are denied.
+   */
+  defaults?: Partial<ConsentChoices>;
+
+  /**
+   * Where choices are persisted. It should outlive the browser session, so
+   * the user is not asked again on every visit. Pass `null` to keep them in
+   * memory.
+   *
+   * @default window.localStorage
+   */
+  storage?: ConsentStorage | null;
+
+  /**
+   * Storage key holding the choices
+   *
+   * @default 'sudobility.consent'
+   */
+  storageKey?: string;
+}
+
+/** Storage key used when none is configured. */
+export const CONSENT_STORAGE_KEY = 'sudobility.consent';
+
+/**
+ * Holds the user's consent choices
+ */
+export class ConsentManager {
+  private choices: ConsentChoices;
+  private decided = false;
+  private listeners: Set<ConsentListener> = new Set();
+  private readonly defaults: ConsentChoices;
+  private readonly storage: ConsentStorage | undefined;
+  private readonly storageKey: string;
+
+  constructor(options: ConsentManagerOptions = {}) {
+    this.defaults = toChoices(options.defaults ?? {});
+    this.choices = this.defaults;
+    this.storage =
+      options.storage === null
+        ? undefined
+        : (options.storage ?? getDefaultConsentStorage());
+    this.storageKey = options.storageKey ?? CONSENT_STORAGE_KEY;
+  }
+
+  /**
+   * Restore choices saved by an earlier visit
+   *
+   * Called by `initializeWebApp` before any gated service starts. Malformed
+   * or unreadable entries are ignored.
+   */
+  async load(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+    try {
+      const raw = await this.storage.getItem(this.storageKey);
+      if (!raw) {
+        return;
+      }
+      const stored = JSON.parse(raw) as Partial<ConsentChoices> | null;
+      if (typeof stored === 'object' && stored !== null) {
+        this.decided = true;
+        this.setChoices(toChoices(stored));
+      }
+    } catch (error) {
+      console.warn('Failed to load consent choices:', error);
+    }
+  }
+
+  /**
+   * Current choices
+   */
+  getChoices(): ConsentChoices {
+    return this.choices;
+  }
+
+  /**
+   * Whether a category is granted
+   */
+  isGranted(category: ConsentCategory): boolean {
+    return this.choices[category];
+  }
+
+  /**
+   * Whether the user made a choice, now or on an earlier visit. Use it to
+   * decide whether to show the consent banner.
+   */
+  hasDecided(): boolean {
+    return this.decided;
+  }
+
+  /**
+   * Grant or revoke categories and persist the result. Categories not
+   * listed keep their current state.
+   */
+  update(choices: Partial<ConsentChoices>): void {
+    this.decided = true;
+    this.setChoices({ ...this.choices, ...choices });
+    void this.persist();
+  }
+
+  /**
+   * Grant every category
+   */
+  grantAll(): void {
+    this.update(toChoices({}, true));
+  }
+
+  /**
+   * Revoke every category
+   */
+  revokeAll(): void {
+    this.update(toChoices({}, false));
+  }
+
+  /**
+   * Forget the user's choices and go back to the defaults
+   */
+  reset(): void {
+    this.decided = false;
+    this.setChoices(this.defaults);
+    void this.storage?.removeItem(this.storageKey);
+  }
+
+  /**
+   * Subscribe to choice changes. Unlike the info service, the listener is
+   * not called with the current choices.
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ConsentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolve once a category is granted (immediately if it already is)
+   *
+   * @param signal - Rejects the promise with the abort reason when aborted,
+   * so callers never go ahead without consent
+   */
+  whenGranted(category: ConsentCategory, signal?: AbortSignal): Promise<void> {
+    if (this.isGranted(category)) {
+      return Promise.resolve();
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        unsubscribe();
+        signal?.removeEventListener('abort', abort);
+      };
+      const abort = () => {
+        cleanup();
+        reject(signal?.reason);
+      };
+      const unsubscribe = this.subscribe((choices) => {
+        if (choices[category]) {
+          cleanup();
+          resolve();
+        }
+      });
+      signal?.addEventListener('abort', abort, { once: true });
+    });
+  }
+
+  private setChoices(choices: ConsentChoices): void {
+    const previous = this.choices;
+    this.choices = choices;
+    if (
+      CONSENT_CATEGORIES.some(
+        (category) => previous[category] !== choices[category]
+      )
+    ) {
+      this.listeners.forEach((listener) => listener(choices, previous));
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.storage?.setItem(
+        this.storageKey,
+        JSON.stringify(this.choices)
+      );
+    } catch (error) {
+      console.warn('Failed to save consent choices:', error);
+    }
+  }
+}
+
+/** Fill every category, using `fallback` for categories not listed. */
+function toChoices(
+  choices: Partial<ConsentChoices>,
+  fallback = false
+): ConsentChoices {
+  return {
+    analytics: choices.analytics ?? fallback,
+    messaging: choices.messaging ?? fallback,
+    subscriptions: choices.subscriptions ?? fallback,
+  };
+}
+
+/** `window.localStorage`, or undefined when unavailable. */
+function getDefaultConsentStorage(): ConsentStorage | undefined {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  } catch {
+    // Accessing localStorage throws when storage is blocked
+    return undefined;
+  }
+}
+
+let consentManagerInstance: ConsentManager | null = null;
+
+/**
+ * Initialize the consent manager singleton
+ * @param manager - ConsentManager instance (optional, creates one if not provided)
+ */
+export function initializeConsentManager(manager?: ConsentManager): void {
+  if (consentManagerInstance) {
+    return;
+  }
+  consentManagerInstance = manager ?? new ConsentManager();
+}
+
+/**
+ * Get the consent manager singleton
+ * @throws Error if not initialized
+ */
+export function getConsentManager(): ConsentManager {
+  if (!consentManagerInstance) {
+    throw new Error(
+      'Consent manager not initialized. Pass `consent` to initializeWebApp() or call initializeConsentManager().'
+    );
+  }
+  return consentManagerInstance;
+}
+
+/**
+ * Reset consent manager (for testing and `teardownWebApp()`)
+ */
+export function resetConsentManager(): void {
+  consentManagerInstance = null;
+}
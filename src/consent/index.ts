@@ -0,0 +1,17 @@
+export {
+  ConsentManager,
+  CONSENT_CATEGORIES,
+  CONSENT_STORAGE_KEY,
+  initializeConsentManager,
+  getConsentManager,
+  resetConsentManager,
+  type ConsentCategory,
+  type ConsentChoices,
+  type ConsentListener,
+  type ConsentManagerOptions,
+  type ConsentStorage,
+} from './consent.js';
+export {
+  createConsentGatedAnalytics,
+  type ConsentGatedAnalyticsOptions,
+} from './analytics.js';
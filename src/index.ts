@@ -18,12 +18,45 @@ export {
   initializeInfoService,
   getInfoService,
   resetInfoService,
+  setInfoTranslator,
+  getInfoTranslator,
+  renderInfoMarkdown,
   InfoBanner,
   useInfoBanner,
+  useInfoBannerSelector,
+  useInfoHistory,
+  InfoServiceProvider,
+  useInfoService,
+  type InfoBannerProps,
+  type InfoBannerItemControls,
+  type InfoBannerPlacement,
+  type InfoBannerStackDirection,
+  type InfoBannerTransition,
+  type InfoServiceProviderProps,
+  type InfoPoliteness,
+  type ReducedMotionMode,
   type BannerState,
   type BannerStateListener,
+  type InfoAction,
+  type InfoBroadcastOptions,
+  type InfoDedupeOptions,
+  type InfoFlashStorage,
+  type InfoHistoryEntry,
+  type InfoHistoryListener,
+  type InfoItem,
+  type InfoOutcome,
+  type InfoPromiseMessage,
+  type InfoPromiseMessages,
+  type InfoShowOptions,
+  type InfoPriorityRules,
+  type InfoTranslationParams,
+  type InfoTranslator,
+  type WebInfoServiceOptions,
 } from './info/index.js';
 
+// Export the key/value storage shape shared by persisted services
+export { type KeyValueStorage } from './storage/index.js';
+
 // Export Initialize module
 export {
   // Analytics service (re-exported from @sudobility/di/web)
@@ -34,10 +67,85 @@ export {
   type AnalyticsEventParams,
   // Web app initialization
   initializeWebApp,
+  initializeWebAppWithReport,
+  teardownWebApp,
+  createDefaultWebAppSteps,
+  runWebAppSteps,
+  sortWebAppSteps,
   type WebAppInitOptions,
+  type WebAppConsentOptions,
+  type WebAppInitReport,
+  type WebAppStep,
+  type WebAppStepContext,
+  type WebAppStepReport,
+  type WebAppStepRunOptions,
+  type WebAppStepStatus,
   type RevenueCatConfig,
+  // RevenueCat readiness
+  getRevenueCatState,
+  subscribeRevenueCat,
+  whenRevenueCatReady,
+  retryRevenueCat,
+  loadRevenueCat,
+  identifyRevenueCatUser,
+  useRevenueCatStatus,
+  type RevenueCatIdentityObservable,
+  type RevenueCatIdentitySource,
+  type RevenueCatState,
+  type RevenueCatStateListener,
+  type RevenueCatStatus,
 } from './initialize/index.js';
 
+// Export Consent module
+export {
+  ConsentManager,
+  CONSENT_CATEGORIES,
+  CONSENT_STORAGE_KEY,
+  initializeConsentManager,
+  getConsentManager,
+  resetConsentManager,
+  createConsentGatedAnalytics,
+  type ConsentCategory,
+  type ConsentChoices,
+  type ConsentGatedAnalyticsOptions,
+  type ConsentListener,
+  type ConsentManagerOptions,
+  type ConsentStorage,
+} from './consent/index.js';
+
+// Export Analytics helpers
+export {
+  AnalyticsEventQueue,
+  createQueuedAnalytics,
+  ANALYTICS_QUEUE_STORAGE_KEY,
+  trackPageViews,
+  normalizePagePath,
+  DEFAULT_PAGE_SEGMENT_PATTERNS,
+  type AnalyticsQueueMerge,
+  type AnalyticsQueueOptions,
+  type AnalyticsQueueOverflow,
+  type AnalyticsQueueStorage,
+  type PageSegmentPattern,
+  type PageViewTrackerOptions,
+  type QueuedAnalyticsEvent,
+  type QueuedAnalyticsOptions,
+} from './analytics/index.js';
+
+// Export env-driven configuration
+export {
+  createWebAppInitOptions,
+  readWebAppEnv,
+  resolveWebAppEnvironment,
+  APP_ENV_KEY,
+  FIREBASE_ENV_KEYS,
+  REVENUECAT_ENV_KEYS,
+  type WebAppEnv,
+  type WebAppEnvironment,
+  type WebAppEnvOptions,
+  type WebAppEnvReadOptions,
+  type WebAppEnvValues,
+} from './config/index.js';
+
 // Re-export Firebase from @sudobility/di/web for convenience
 // This allows existing code importing from di_web to continue working
 export {
@@ -52,6 +160,7 @@ export {
 export {
   registerServiceWorker,
   unregisterServiceWorker,
+  stopServiceWorkerUpdateChecks,
   type ServiceWorkerState,
   type RegisterServiceWorkerOptions,
 } from './sw/register.js';
@@ -2,58 +2,330 @@
  * React components for InfoInterface integration
  *
  * Provides useInfoBanner hook and InfoBanner component that
- * automatically subscribe to the WebInfoService singleton.
+ * automatically subscribe to the nearest InfoServiceProvider's service,
+ * or the WebInfoService singleton when there is none.
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, {
+  useEffect,
+  useCallback,
+  useRef,
+  useSyncExternalStore,
+} from 'react';
 import { Banner } from '@sudobility/components';
-import { getInfoService, type BannerState } from './info.web.js';
+import type { InfoType } from '@sudobility/types';
+import {
+  INITIAL_BANNER_STATE,
+  type BannerState,
+  type InfoItem,
+} from './info.web.js';
+import { useInfoService } from './InfoServiceProvider.js';
+import {
+  matchesShortcut,
+  useInfoAnnouncements,
+  useReducedMotion,
+  type ReducedMotionMode,
+} from './a11y.js';
+import { renderInfoMarkdown } from './markdown.js';
+import {
+  getInfoContainerClassName,
+  getInfoTransitionClassName,
+  orderInfoItems,
+  type InfoBannerPlacement,
+  type InfoBannerStackDirection,
+  type InfoBannerTransition,
+} from './layout.js';
+
+const selectState = (state: BannerState) => state;
+
+/**
+ * Hook to subscribe to a slice of the info service banner state
+ *
+ * The component only re-renders when the selected value changes according
+ * to `isEqual`. Built on `useSyncExternalStore`, so it never tears under
+ * concurrent rendering and renders the empty state on the server.
+ *
+ * @param selector - Picks the slice from the current state
+ * @param isEqual - Compares the previous and next slice (`Object.is` by
+ * default)
+ *
+ * @example
+ * ```tsx
+ * function ErrorDot() {
+ *   const hasError = useInfoBannerSelector((state) =>
+ *     state.items.some((item) => item.variant === InfoType.ERROR)
+ *   );
+ *   return hasError ? <span className="dot" /> : null;
+ * }
+ * ```
+ */
+export function useInfoBannerSelector<T>(
+  selector: (state: BannerState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const service = useInfoService();
+  const cache = useRef<{
+    state: BannerState;
+    selector: (state: BannerState) => T;
+    selection: T;
+  } | null>(null);
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => service.subscribe(onStoreChange),
+    [service]
+  );
+
+  // Snapshots must be referentially stable, so reuse the previous selection
+  // while the state is unchanged or the new slice is equal to it
+  const select = (state: BannerState): T => {
+    const cached = cache.current;
+    if (cached?.state === state && cached.selector === selector) {
+      return cached.selection;
+    }
+    const next = selector(state);
+    const selection =
+      cached && isEqual(cached.selection, next) ? cached.selection : next;
+    cache.current = { state, selector, selection };
+    return selection;
+  };
+
+  return useSyncExternalStore(
+    subscribe,
+    () => select(service.getState()),
+    () => select(INITIAL_BANNER_STATE)
+  );
+}
 
 /**
  * Hook to subscribe to the info service banner state
  *
- * @returns Current banner state and dismiss function
+ * @returns Current banner state, functions to dismiss one banner (the most
+ * recent one when no id is given) or all of them, a function that runs a
+ * banner action, and functions to pause/resume auto-dismiss (one banner, or
+ * all of them when no id is given)
  *
  * @example
  * ```tsx
  * function MyComponent() {
- *   const { state, dismiss } = useInfoBanner();
+ *   const { state, dismiss, triggerAction } = useInfoBanner();
  *
  *   return (
- *     <Banner
- *       isVisible={state.isVisible}
- *       onDismiss={dismiss}
- *       title={state.title}
- *       description={state.description}
- *       variant={state.variant}
- *       duration={state.duration}
- *     />
+ *     <>
+ *       {state.items.map((item) => (
+ *         <Banner
+ *           key={item.id}
+ *           isVisible
+ *           onDismiss={() => dismiss(item.id)}
+ *           title={item.title}
+ *           description={item.description}
+ *           variant={item.variant}
+ *           duration={item.duration}
+ *         />
+ *       ))}
+ *     </>
  *   );
  * }
  * ```
  */
 export function useInfoBanner(): {
   state: BannerState;
-  dismiss: () => void;
+  dismiss: (id?: string) => void;
+  dismissAll: () => void;
+  triggerAction: (id: string, index: number) => void;
+  pause: (id?: string) => void;
+  resume: (id?: string) => void;
 } {
-  const service = getInfoService();
-  const [state, setState] = useState<BannerState>(service.getState());
+  const service = useInfoService();
+  const state = useInfoBannerSelector(selectState);
 
-  useEffect(() => {
-    return service.subscribe(setState);
-  }, [service]);
+  const dismiss = useCallback(
+    (id?: string) => {
+      service.dismiss(id);
+    },
+    [service]
+  );
 
-  const dismiss = useCallback(() => {
-    service.dismiss();
+  const dismissAll = useCallback(() => {
+    service.dismissAll();
   }, [service]);
 
-  return { state, dismiss };
+  const triggerAction = useCallback(
+    (id: string, index: number) => {
+      service.triggerAction(id, index);
+    },
+    [service]
+  );
+
+  const pause = useCallback(
+    (id?: string) => {
+      service.pause(id);
+    },
+    [service]
+  );
+
+  const resume = useCallback(
+    (id?: string) => {
+      service.resume(id);
+    },
+    [service]
+  );
+
+  return { state, dismiss, dismissAll, triggerAction, pause, resume };
 }
 
 /**
- * Banner component that automatically connects to the info service singleton
+ * Props for {@link InfoBanner}
+ */
+export interface InfoBannerProps {
+  /**
+   * Shortcut that moves keyboard focus to the newest banner, preferring one
+   * with actions. Focus returns to where it was once that banner closes.
+   * Pass `false` to disable.
+   *
+   * @default 'Alt+N'
+   */
+  focusShortcut?: string | false;
+
+  /**
+   * Key that dismisses the banner containing keyboard focus.
+   * Pass `false` to disable.
+   *
+   * @default 'Escape'
+   */
+  dismissShortcut?: string | false;
+
+  /**
+   * Whether to turn off banner animations and transitions.
+   *
+   * @default 'user'
+   */
+  reducedMotion?: ReducedMotionMode;
+
+  /**
+   * Where the stack is rendered. `'inline'` keeps it in the document flow.
+   *
+   * @default 'inline'
+   */
+  placement?: InfoBannerPlacement;
+
+  /**
+   * Whether the newest banner goes at the end or the start of the stack.
+   *
+   * @default 'oldest-first'
+   */
+  stackDirection?: InfoBannerStackDirection;
+
+  /** Maximum width of the stack, e.g. `420` or `'32rem'` */
+  maxWidth?: number | string;
+
+  /** Icon shown before banners of each type */
+  icons?: Partial<Record<InfoType, React.ReactNode>>;
+
+  /**
+   * Enter animation of each banner, skipped when motion is reduced.
+   *
+   * @default 'none'
+   */
+  transition?: InfoBannerTransition;
+
+  /** Extra class name for the stack container */
+  className?: string;
+
+  /**
+   * Render a banner yourself instead of the default `Banner`. Hover, focus,
+   * keyboard handling and announcements still apply.
+   */
+  renderItem?: (
+    item: InfoItem,
+    controls: InfoBannerItemControls
+  ) => React.ReactNode;
+}
+
+/**
+ * Controls passed to {@link InfoBannerProps.renderItem}
+ */
+export interface InfoBannerItemControls {
+  /** Close the banner */
+  dismiss: () => void;
+  /** Run the banner action at `index` */
+  triggerAction: (index: number) => void;
+}
+
+/**
+ * Default rendering of a banner: the `Banner` component, rich content and
+ * action buttons, with an optional icon in front
+ */
+function DefaultInfoItem({
+  item,
+  controls,
+  icon,
+}: {
+  item: InfoItem;
+  controls: InfoBannerItemControls;
+  icon: React.ReactNode;
+}): React.ReactElement {
+  const hasRichContent = item.content != null || item.markdown;
+  const body = (
+    <>
+      <Banner
+        isVisible
+        onDismiss={controls.dismiss}
+        title={item.count ? `${item.title} ×${String(item.count)}` : item.title}
+        description={hasRichContent ? '' : item.description}
+        variant={item.variant}
+        duration={0} // We handle auto-dismiss in the service
+      />
+      {hasRichContent && (
+        <div className="mt-1 text-sm">
+          {item.content ?? renderInfoMarkdown(item.description)}
+        </div>
+      )}
+      {item.actions && (
+        <div className="mt-2 flex justify-end gap-2">
+          {item.actions.map((action, index) => (
+            <button
+              // Labels may repeat, so key by position
+              key={index}
+              type="button"
+              className="rounded px-3 py-1 text-sm font-medium underline"
+              onClick={() => controls.triggerAction(index)}
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+
+  if (icon == null) {
+    return body;
+  }
+  return (
+    <div className="flex items-start gap-2">
+      <span className="mt-3 shrink-0" aria-hidden>
+        {icon}
+      </span>
+      <div className="min-w-0 flex-1">{body}</div>
+    </div>
+  );
+}
+
+/**
+ * Banner component that automatically connects to the info service of the
+ * nearest InfoServiceProvider, or the singleton
  *
  * Just render this component once in your app root to display info banners.
+ * Visible banners are stacked oldest first by default; queued ones appear as
+ * slots free up. Placement, stacking, width, icons and animations are
+ * configurable, and `renderItem` replaces the default banner entirely.
+ * Actions passed to `show()` are rendered as buttons below each banner, and
+ * `content` or `markdown` descriptions below the banner title.
+ * Auto-dismiss pauses while a banner is hovered or focused and while the tab
+ * is hidden.
+ *
+ * Each banner is also announced through an ARIA live region, assertively for
+ * errors and warnings and politely otherwise.
  *
  * @example
  * ```tsx
@@ -67,21 +339,173 @@ export function useInfoBanner(): {
  * }
  * ```
  */
-export function InfoBanner(): React.ReactElement | null {
-  const { state, dismiss } = useInfoBanner();
+export function InfoBanner({
+  focusShortcut = 'Alt+N',
+  dismissShortcut = 'Escape',
+  reducedMotion = 'user',
+  placement = 'inline',
+  stackDirection = 'oldest-first',
+  maxWidth,
+  icons,
+  transition = 'none',
+  className,
+  renderItem,
+}: InfoBannerProps = {}): React.ReactElement | null {
+  const { state, dismiss, triggerAction, pause, resume } = useInfoBanner();
+  const announcements = useInfoAnnouncements(state.items);
+  const isMotionReduced = useReducedMotion(reducedMotion);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  const returnFocusRef = useRef<HTMLElement | null>(null);
 
-  if (!state.isVisible) {
-    return null;
-  }
+  useEffect(() => {
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    let pausedWhileHidden = false;
+    const handleVisibilityChange = () => {
+      if (document.hidden && !pausedWhileHidden) {
+        pausedWhileHidden = true;
+        pause();
+      } else if (!document.hidden && pausedWhileHidden) {
+        pausedWhileHidden = false;
+        resume();
+      }
+    };
+
+    handleVisibilityChange();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (pausedWhileHidden) {
+        resume();
+      }
+    };
+  }, [pause, resume]);
+
+  useEffect(() => {
+    if (!focusShortcut || typeof document === 'undefined') {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!matchesShortcut(event, focusShortcut)) {
+        return;
+      }
+      const target =
+        [...state.items].reverse().find((item) => item.actions) ??
+        state.items[state.items.length - 1];
+      const element = target && itemRefs.current.get(target.id);
+      if (!element) {
+        return;
+      }
+
+      event.preventDefault();
+      if (!containerRef.current?.contains(document.activeElement)) {
+        returnFocusRef.current = document.activeElement as HTMLElement | null;
+      }
+      (element.querySelector('button') ?? element).focus();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [focusShortcut, state.items]);
+
+  // Hand focus back once the banner holding it has closed
+  useEffect(() => {
+    const returnTo = returnFocusRef.current;
+    if (
+      returnTo &&
+      !containerRef.current?.contains(document.activeElement) &&
+      document.activeElement !== returnTo
+    ) {
+      returnFocusRef.current = null;
+      returnTo.focus();
+    }
+  }, [state.items]);
+
+  const handleItemKeyDown = (id: string, event: React.KeyboardEvent) => {
+    if (
+      dismissShortcut &&
+      matchesShortcut(event.nativeEvent, dismissShortcut)
+    ) {
+      event.preventDefault();
+      dismiss(id);
+    }
+  };
+
+  const handleItemBlur = (id: string, event: React.FocusEvent) => {
+    resume(id);
+    // Focus moved elsewhere on purpose, so there is nothing to restore
+    const next = event.relatedTarget as Node | null;
+    if (next && !containerRef.current?.contains(next)) {
+      returnFocusRef.current = null;
+    }
+  };
 
   return (
-    <Banner
-      isVisible={state.isVisible}
-      onDismiss={dismiss}
-      title={state.title}
-      description={state.description}
-      variant={state.variant}
-      duration={0} // We handle auto-dismiss in the service
-    />
+    <>
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic>
+        <span key={announcements.key}>{announcements.polite}</span>
+      </div>
+      <div className="sr-only" role="alert" aria-live="assertive" aria-atomic>
+        <span key={announcements.key}>{announcements.assertive}</span>
+      </div>
+      {state.items.length > 0 && (
+        <div
+          ref={containerRef}
+          className={[
+            getInfoContainerClassName(placement, isMotionReduced),
+            className,
+          ]
+            .filter(Boolean)
+            .join(' ')}
+          style={maxWidth != null ? { maxWidth } : undefined}
+          data-placement={placement}
+          data-reduced-motion={isMotionReduced || undefined}
+        >
+          {orderInfoItems(state.items, stackDirection).map((item) => {
+            const controls: InfoBannerItemControls = {
+              dismiss: () => dismiss(item.id),
+              triggerAction: (index) => triggerAction(item.id, index),
+            };
+            return (
+              <div
+                key={item.id}
+                ref={(element) => {
+                  if (element) {
+                    itemRefs.current.set(item.id, element);
+                  } else {
+                    itemRefs.current.delete(item.id);
+                  }
+                }}
+                className={
+                  getInfoTransitionClassName(transition, placement) || undefined
+                }
+                role={item.actions ? 'group' : undefined}
+                aria-label={item.actions ? item.title : undefined}
+                tabIndex={-1}
+                onMouseEnter={() => pause(item.id)}
+                onMouseLeave={() => resume(item.id)}
+                onFocus={() => pause(item.id)}
+                onBlur={(event) => handleItemBlur(item.id, event)}
+                onKeyDown={(event) => handleItemKeyDown(item.id, event)}
+              >
+                {renderItem ? (
+                  renderItem(item, controls)
+                ) : (
+                  <DefaultInfoItem
+                    item={item}
+                    controls={controls}
+                    icon={icons?.[item.variant]}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
   );
 }
@@ -0,0 +1,106 @@
+/**
+ * React context for WebInfoService
+ *
+ * Lets a subtree use its own info service instead of the module-level
+ * singleton, which keeps tests, Storybook stories and micro-frontends
+ * isolated from each other.
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import {
+  createWebInfoService,
+  getInfoService,
+  type WebInfoService,
+  type WebInfoServiceOptions,
+} from './info.web.js';
+
+const InfoServiceContext = createContext<WebInfoService | null>(null);
+
+/**
+ * Props for {@link InfoServiceProvider}
+ */
+export interface InfoServiceProviderProps {
+  /**
+   * Service to provide. When omitted, the provider creates its own from
+   * `options`, shows the flash banners persisted for it on mount and
+   * destroys it on unmount. A service passed in is left to its owner.
+   */
+  service?: WebInfoService;
+
+  /**
+   * Options for the service created by the provider. Only read on mount and
+   * ignored when `service` is given.
+   */
+  options?: WebInfoServiceOptions;
+
+  children?: React.ReactNode;
+}
+
+/**
+ * Provide an info service to `useInfoService`, `useInfoBanner`,
+ * `useInfoHistory` and `InfoBanner` in the subtree
+ *
+ * Providers can be nested or placed side by side; each subtree talks to the
+ * service of its nearest provider.
+ *
+ * @example
+ * ```tsx
+ * function Story() {
+ *   return (
+ *     <InfoServiceProvider options={{ maxVisible: 1 }}>
+ *       <InfoBanner />
+ *       <SaveButton />
+ *     </InfoServiceProvider>
+ *   );
+ * }
+ * ```
+ */
+export function InfoServiceProvider({
+  service,
+  options,
+  children,
+}: InfoServiceProviderProps): React.ReactElement {
+  const [ownService, setOwnService] = useState(() =>
+    service ? null : createWebInfoService(options)
+  );
+  const destroyedRef = useRef<WebInfoService | null>(null);
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    if (!ownService) {
+      return;
+    }
+    // Remounted after cleanup (e.g. StrictMode): the old service is closed
+    if (destroyedRef.current === ownService) {
+      setOwnService(createWebInfoService(optionsRef.current));
+      return;
+    }
+    void ownService.restorePersisted();
+    return () => {
+      ownService.destroy();
+      destroyedRef.current = ownService;
+    };
+  }, [ownService]);
+
+  return (
+    <InfoServiceContext.Provider value={service ?? ownService}>
+      {children}
+    </InfoServiceContext.Provider>
+  );
+}
+
+/**
+ * Hook returning the info service of the nearest `InfoServiceProvider`,
+ * falling back to the singleton set up by `initializeInfoService`
+ *
+ * @throws Error if there is no provider and the singleton is not initialized
+ */
+export function useInfoService(): WebInfoService {
+  return useContext(InfoServiceContext) ?? getInfoService();
+}
@@ -0,0 +1,184 @@
+/**
+ * Accessibility helpers for InfoBanner
+ *
+ * Decides how each banner is announced to screen readers, matches keyboard
+ * shortcuts and tracks the user's reduced-motion preference.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { InfoType } from '@sudobility/types';
+import type { InfoItem } from './info.web.js';
+import { infoMarkdownToText } from './markdown.js';
+
+/**
+ * Live-region politeness used to announce a banner
+ */
+export type InfoPoliteness = 'polite' | 'assertive';
+
+/**
+ * How InfoBanner decides whether to reduce motion
+ *
+ * - `'user'` -- follow the `prefers-reduced-motion` media query
+ * - `'always'` -- always reduce motion
+ * - `'never'` -- never reduce motion
+ */
+export type ReducedMotionMode = 'user' | 'always' | 'never';
+
+/**
+ * Text pending in each live region. `key` changes on every announcement so
+ * repeating the same text is announced again.
+ */
+export interface InfoAnnouncements {
+  polite: string;
+  assertive: string;
+  key: number;
+}
+
+/** Types that interrupt the screen reader instead of waiting for idle. */
+const ASSERTIVE_TYPES: InfoType[] = [InfoType.ERROR, InfoType.WARNING];
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Politeness for a banner type: errors and warnings are assertive,
+ * everything else polite
+ */
+export function getInfoPoliteness(variant: InfoType): InfoPoliteness {
+  return ASSERTIVE_TYPES.includes(variant) ? 'assertive' : 'polite';
+}
+
+/**
+ * Text read out by screen readers when a banner appears
+ */
+export function formatInfoAnnouncement(
+  item: Pick<InfoItem, 'title' | 'description' | 'actions' | 'markdown'>
+): string {
+  const description = item.markdown
+    ? infoMarkdownToText(item.description)
+    : item.description;
+  const parts = [item.title, description].filter(Boolean);
+  if (item.actions?.length) {
+    parts.push(
+      `Actions: ${item.actions.map((action) => action.label).join(', ')}`
+    );
+  }
+  return parts.join('. ');
+}
+
+/**
+ * Check a keyboard event against a shortcut such as `'Escape'` or
+ * `'Alt+Shift+N'`. Modifiers must match exactly; the key is
+ * case-insensitive. Letters and digits are matched on the physical key
+ * (`event.code`), since modifiers such as Option on macOS change
+ * `event.key`.
+ */
+export function matchesShortcut(
+  event: Pick<
+    KeyboardEvent,
+    'key' | 'code' | 'altKey' | 'ctrlKey' | 'metaKey' | 'shiftKey'
+  >,
+  shortcut: string
+): boolean {
+  const parts = shortcut.split('+').map((part) => part.trim().toLowerCase());
+  const key = parts.pop();
+  if (!key) {
+    return false;
+  }
+
+  return (
+    matchesKey(event, key) &&
+    event.altKey === parts.includes('alt') &&
+    event.ctrlKey === parts.includes('ctrl') &&
+    event.metaKey === parts.includes('meta') &&
+    event.shiftKey === parts.includes('shift')
+  );
+}
+
+/** Compare the key of an event with a lowercase shortcut key */
+function matchesKey(
+  event: Pick<KeyboardEvent, 'key' | 'code'>,
+  key: string
+): boolean {
+  if (event.code && /^[a-z0-9]$/.test(key)) {
+    const prefix = /[a-z]/.test(key) ? 'Key' : 'Digit';
+    return event.code === `${prefix}${key.toUpperCase()}`;
+  }
+  return event.key.toLowerCase() === key;
+}
+
+/**
+ * Whether motion should be reduced right now
+ */
+export function prefersReducedMotion(
+  mode: ReducedMotionMode = 'user'
+): boolean {
+  if (mode !== 'user') {
+    return mode === 'always';
+  }
+  if (typeof window === 'undefined' || !window.matchMedia) {
+    return false;
+  }
+  return window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+/**
+ * Hook tracking {@link prefersReducedMotion}, updating when the user
+ * changes the preference
+ */
+export function useReducedMotion(mode: ReducedMotionMode = 'user'): boolean {
+  const [reduced, setReduced] = useState(() => prefersReducedMotion(mode));
+
+  useEffect(() => {
+    setReduced(prefersReducedMotion(mode));
+    if (
+      mode !== 'user' ||
+      typeof window === 'undefined' ||
+      !window.matchMedia
+    ) {
+      return;
+    }
+
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const handleChange = () => setReduced(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, [mode]);
+
+  return reduced;
+}
+
+/**
+ * Hook producing live-region text for banners as they become visible
+ *
+ * Each banner is announced once, in the region matching its type.
+ */
+export function useInfoAnnouncements(items: InfoItem[]): InfoAnnouncements {
+  const announcedIds = useRef<Set<string>>(new Set());
+  const [announcements, setAnnouncements] = useState<InfoAnnouncements>({
+    polite: '',
+    assertive: '',
+    key: 0,
+  });
+
+  useEffect(() => {
+    const fresh = items.filter((item) => !announcedIds.current.has(item.id));
+    announcedIds.current = new Set(items.map((item) => item.id));
+    if (fresh.length === 0) {
+      return;
+    }
+
+    const textFor = (politeness: InfoPoliteness) =>
+      fresh
+        .filter((item) => getInfoPoliteness(item.variant) === politeness)
+        .map(formatInfoAnnouncement)
+        .join('. ');
+
+    setAnnouncements((previous) => ({
+      polite: textFor('polite'),
+      assertive: textFor('assertive'),
+      key: previous.key + 1,
+    }));
+  }, [items]);
+
+  return announcements;
+}
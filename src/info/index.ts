@@ -11,7 +11,45 @@ export {
   resetInfoService,
   type BannerState,
   type BannerStateListener,
+  type InfoAction,
+  type InfoDedupeOptions,
+  type InfoHistoryEntry,
+  type InfoHistoryListener,
+  type InfoItem,
+  type InfoOutcome,
+  type InfoPromiseMessage,
+  type InfoPromiseMessages,
+  type InfoShowOptions,
+  type InfoPriorityRules,
+  type WebInfoServiceOptions,
 } from './info.web.js';
+export { type InfoFlashStorage } from './info.flash.js';
+export { type InfoBroadcastOptions } from './info.broadcast.js';
+export {
+  setInfoTranslator,
+  getInfoTranslator,
+  type InfoTranslationParams,
+  type InfoTranslator,
+} from './info.i18n.js';
 
 // React components
-export { InfoBanner, useInfoBanner } from './InfoBanner.js';
+export {
+  InfoBanner,
+  useInfoBanner,
+  useInfoBannerSelector,
+  type InfoBannerProps,
+  type InfoBannerItemControls,
+} from './InfoBanner.js';
+export {
+  type InfoBannerPlacement,
+  type InfoBannerStackDirection,
+  type InfoBannerTransition,
+} from './layout.js';
+export { type InfoPoliteness, type ReducedMotionMode } from './a11y.js';
+export { renderInfoMarkdown } from './markdown.js';
+export { useInfoHistory } from './useInfoHistory.js';
+export {
+  InfoServiceProvider,
+  useInfoService,
+  type InfoServiceProviderProps,
+} from './InfoServiceProvider.js';
@@ -0,0 +1,104 @@
+/**
+ * Cross-tab transport for WebInfoService
+ *
+ * Mirrors banners to other same-origin tabs over a BroadcastChannel. Every
+ * mirrored banner carries a shared id (`<tab>:<banner id>`) so tabs can
+ * dismiss it in sync.
+ */
+
+import type { InfoType } from '@sudobility/types';
+
+/**
+ * Options for mirroring banners to other tabs
+ */
+export interface InfoBroadcastOptions {
+  /**
+   * Name of the BroadcastChannel shared by the tabs
+   *
+   * @default 'sudobility-info'
+   */
+  channelName?: string;
+
+  /**
+   * Mirror every banner. When `false`, only banners shown with
+   * `broadcast: true` are mirrored, though banners from other tabs are
+   * still received.
+   *
+   * @default true
+   */
+  all?: boolean;
+}
+
+/**
+ * Message exchanged between tabs
+ */
+export type InfoBroadcastMessage =
+  | {
+      type: 'show';
+      source: string;
+      id: string;
+      title: string;
+      description: string;
+      variant: InfoType;
+      duration?: number;
+      markdown?: boolean;
+      /** Shared id of the banner this one replaces */
+      replaces?: string;
+    }
+  | { type: 'dismiss'; source: string; id: string };
+
+/** Message as passed to {@link InfoBroadcaster.post}, before tagging. */
+type OutgoingMessage<T = InfoBroadcastMessage> = T extends InfoBroadcastMessage
+  ? Omit<T, 'source'>
+  : never;
+
+/** Channel name used when none is configured. */
+export const DEFAULT_BROADCAST_CHANNEL = 'sudobility-info';
+
+/**
+ * Thin wrapper around BroadcastChannel that tags outgoing messages with a
+ * per-tab source id and drops messages carrying its own id, so a tab never
+ * handles its own echo.
+ */
+export class InfoBroadcaster {
+  /** Identifies this tab in shared ids and message sources */
+  readonly source = Math.random().toString(36).slice(2, 10);
+
+  private channel: BroadcastChannel;
+
+  constructor(
+    channelName: string,
+    onMessage: (message: InfoBroadcastMessage) => void
+  ) {
+    this.channel = new BroadcastChannel(channelName);
+    this.channel.addEventListener(
+      'message',
+      (event: MessageEvent<InfoBroadcastMessage>) => {
+        if (event.data?.source !== this.source) {
+          onMessage(event.data);
+        }
+      }
+    );
+  }
+
+  /**
+   * Whether BroadcastChannel exists in this environment
+   */
+  static isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  }
+
+  /**
+   * Send a message to the other tabs
+   */
+  post(message: OutgoingMessage): void {
+    this.channel.postMessage({ ...message, source: this.source });
+  }
+
+  /**
+   * Stop sending and receiving messages
+   */
+  close(): void {
+    this.channel.close();
+  }
+}
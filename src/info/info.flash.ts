@@ -0,0 +1,93 @@
+/**
+ * Flash-message persistence for WebInfoService
+ *
+ * Banners shown with `persist: true` are written to storage until they
+ * close, so a banner shown right before a reload or redirect is displayed
+ * again on the next page load.
+ */
+
+import type { InfoType } from '@sudobility/types';
+import type { KeyValueStorage } from '../storage/index.js';
+
+/**
+ * Key/value store holding pending flash banners, such as
+ * `window.sessionStorage` or the DI storage service
+ */
+export type InfoFlashStorage = KeyValueStorage;
+
+/**
+ * Banner saved for the next page load. Actions are not persisted since
+ * their handlers cannot be serialized.
+ */
+export interface PersistedInfo {
+  title: string;
+  description: string;
+  variant: InfoType;
+  duration?: number;
+  /** Whether the description uses the markdown subset */
+  markdown?: boolean;
+  /** When the banner was first shown (ms since epoch) */
+  savedAt: number;
+}
+
+/**
+ * Default storage key holding the pending banners. Services sharing a
+ * storage need keys of their own, see `flashStorageKey`.
+ */
+export const FLASH_STORAGE_KEY = 'sudobility.info.flash';
+
+/** Pending banners older than this are dropped instead of restored. */
+export const FLASH_MAX_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * `window.sessionStorage` when the browser allows access to it
+ */
+export function getDefaultFlashStorage(): InfoFlashStorage | undefined {
+  try {
+    return typeof window !== 'undefined' ? window.sessionStorage : undefined;
+  } catch {
+    // Accessing sessionStorage throws when storage is blocked
+    return undefined;
+  }
+}
+
+function isPersistedInfo(value: unknown): value is PersistedInfo {
+  const entry = value as Partial<PersistedInfo> | null;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.title === 'string' &&
+    typeof entry.description === 'string' &&
+    typeof entry.savedAt === 'number'
+  );
+}
+
+/**
+ * Read pending banners, ignoring malformed entries
+ */
+export async function readPersistedInfo(
+  storage: InfoFlashStorage,
+  key: string = FLASH_STORAGE_KEY
+): Promise<PersistedInfo[]> {
+  const raw = await storage.getItem(key);
+  if (!raw) {
+    return [];
+  }
+  const parsed: unknown = JSON.parse(raw);
+  return Array.isArray(parsed) ? parsed.filter(isPersistedInfo) : [];
+}
+
+/**
+ * Replace the pending banners, removing the key when there are none
+ */
+export async function writePersistedInfo(
+  storage: InfoFlashStorage,
+  entries: PersistedInfo[],
+  key: string = FLASH_STORAGE_KEY
+): Promise<void> {
+  if (entries.length === 0) {
+    await storage.removeItem(key);
+  } else {
+    await storage.setItem(key, JSON.stringify(entries));
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Translation support for WebInfoService
+ *
+ * Banners shown with `translate: true` treat their title and description as
+ * i18n keys, resolved through a translator registered here (typically by
+ * the `initializeI18n` step of `initializeWebApp`) or passed to the service.
+ */
+
+/**
+ * Interpolation values for a translated banner
+ */
+export type InfoTranslationParams = Record<string, unknown>;
+
+/**
+ * Resolves an i18n key to text, e.g. i18next's `t`
+ */
+export type InfoTranslator = (
+  key: string,
+  params?: InfoTranslationParams
+) => string;
+
+let registeredTranslator: InfoTranslator | null = null;
+
+/**
+ * Register the translator used by info services that were not given one
+ *
+ * @param translator - Translator, or `null` to unregister
+ *
+ * @example
+ * ```ts
+ * setInfoTranslator((key, params) => i18n.t(key, params));
+ * getInfoService().show('saved.title', 'saved.body', InfoType.SUCCESS,
+ *   undefined, { translate: true, params: { name: 'Report' } });
+ * ```
+ */
+export function setInfoTranslator(translator: InfoTranslator | null): void {
+  registeredTranslator = translator;
+}
+
+/**
+ * Get the registered translator, if any
+ */
+export function getInfoTranslator(): InfoTranslator | null {
+  return registeredTranslator;
+}
+
+/**
+ * Replace `{{name}}` placeholders with values from `params`
+ *
+ * Used when no translator is available, so untranslated keys still show
+ * their interpolated values. Unknown placeholders are left as they are.
+ */
+export function interpolate(
+  template: string,
+  params?: InfoTranslationParams
+): string {
+  if (!params) {
+    return template;
+  }
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(params, name)
+      ? String(params[name])
+      : match
+  );
+}
@@ -36,10 +36,185 @@ import {
   type InfoInterface,
   initializeInfoService as initializeDiInfoService,
 } from '@sudobility/di/info';
+import type { ReactNode } from 'react';
 import { InfoType, Optional } from '@sudobility/types';
+import {
+  FLASH_MAX_AGE_MS,
+  FLASH_STORAGE_KEY,
+  getDefaultFlashStorage,
+  readPersistedInfo,
+  writePersistedInfo,
+  type InfoFlashStorage,
+  type PersistedInfo,
+} from './info.flash.js';
+import {
+  DEFAULT_BROADCAST_CHANNEL,
+  InfoBroadcaster,
+  type InfoBroadcastMessage,
+  type InfoBroadcastOptions,
+} from './info.broadcast.js';
+import {
+  getInfoTranslator,
+  interpolate,
+  type InfoTranslationParams,
+  type InfoTranslator,
+} from './info.i18n.js';
+
+/** Auto-dismiss delay (ms) used when `show()` is called without an interval. */
+const DEFAULT_DURATION_MS = 5000;
+
+/** Number of banners shown at once when no `maxVisible` option is given. */
+const DEFAULT_MAX_VISIBLE = 3;
+
+/** Window (ms) in which identical banners are coalesced by default. */
+const DEFAULT_DEDUPE_WINDOW_MS = 5000;
+
+/** Number of history entries kept when no `historyLimit` option is given. */
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/** Default priority of each InfoType; higher numbers win. */
+const DEFAULT_PRIORITIES: Partial<Record<InfoType, number>> = {
+  [InfoType.INFO]: 0,
+  [InfoType.SUCCESS]: 1,
+  [InfoType.WARNING]: 2,
+  [InfoType.ERROR]: 3,
+};
+
+/**
+ * Button rendered on a banner
+ */
+export interface InfoAction {
+  /** Button label */
+  label: string;
+  /** Called with the banner id when the button is clicked */
+  handler: (id: string) => void;
+  /**
+   * Whether clicking the button also dismisses the banner
+   *
+   * @default true
+   */
+  dismiss?: boolean;
+}
+
+/**
+ * Extra options accepted by {@link WebInfoService.show}
+ */
+export interface InfoShowOptions {
+  /** Buttons such as "Undo" or "Retry" rendered on the banner */
+  actions?: InfoAction[];
+
+  /**
+   * Id of a visible or queued banner this one takes the place of. The old
+   * banner ends with the `'replaced'` outcome.
+   */
+  replaces?: string;
+
+  /**
+   * Key identifying repeats of the same message for deduplication and rate
+   * limiting. Defaults to the combination of title, description and type.
+   */
+  key?: string;
+
+  /**
+   * Keep the banner across page reloads and redirects ("flash message").
+   * It is saved to the service's `flashStorage` until it closes and shown
+   * again by `initializeInfoService()` on the next page load. Actions are
+   * not persisted.
+   */
+  persist?: boolean;
+
+  /**
+   * Mirror this banner to other tabs. Defaults to the service's
+   * `broadcast.all` setting; needs the `broadcast` service option.
+   */
+  broadcast?: boolean;
+
+  /**
+   * Treat the title and description as i18n keys, resolved through the
+   * service's `translator` or the one registered with `setInfoTranslator()`.
+   * Without a translator the keys are shown with `{{param}}` placeholders
+   * filled in.
+   */
+  translate?: boolean;
+
+  /** Interpolation values for translated keys */
+  params?: InfoTranslationParams;
+
+  /**
+   * Rich content rendered by InfoBanner in place of the description. The
+   * description is still used for history, announcements and other tabs.
+   * Not persisted or broadcast.
+   */
+  content?: ReactNode;
+
+  /**
+   * Render the description with a safe markdown subset: links, `**strong**`,
+   * `*emphasis*` and `` `code` ``
+   */
+  markdown?: boolean;
+}
+
+/**
+ * Banner shown by {@link WebInfoService.promise}: just a title, or a title
+ * with a description and an auto-dismiss duration
+ */
+export type InfoPromiseMessage =
+  | string
+  | { title: string; description?: string; duration?: number };
+
+/**
+ * Messages shown by {@link WebInfoService.promise} while the operation runs
+ * and once it settles
+ */
+export interface InfoPromiseMessages<T> {
+  /** Shown until the promise settles, without auto-dismiss */
+  loading: InfoPromiseMessage;
+  /** Shown as a SUCCESS banner, optionally built from the resolved value */
+  success: InfoPromiseMessage | ((value: T) => InfoPromiseMessage);
+  /** Shown as an ERROR banner, optionally built from the rejection reason */
+  error: InfoPromiseMessage | ((error: unknown) => InfoPromiseMessage);
+}
+
+/**
+ * How a banner shown with {@link WebInfoService.showAsync} ended
+ *
+ * - `'timeout'` -- closed by its auto-dismiss timer
+ * - `'dismissed'` -- closed by the user or a `dismiss()` call
+ * - `'replaced'` -- taken over by a banner shown with `replaces`
+ * - `'suppressed'` -- never shown because its message key hit the rate limit
+ * - `{ action }` -- the action with this label was clicked
+ */
+export type InfoOutcome =
+  | 'timeout'
+  | 'dismissed'
+  | 'replaced'
+  | 'suppressed'
+  | { action: string };
+
+/**
+ * A single banner managed by the service
+ */
+export interface InfoItem {
+  /** Unique id, usable with {@link WebInfoService.dismiss} */
+  id: string;
+  title: string;
+  description: string;
+  variant: InfoType;
+  duration?: number;
+  actions?: InfoAction[];
+  /** How many identical messages were coalesced into this banner (≥ 2) */
+  count?: number;
+  /** Rich content rendered in place of the description */
+  content?: ReactNode;
+  /** Whether the description uses the markdown subset */
+  markdown?: boolean;
+}
 
 /**
  * Banner state managed by the service
+ *
+ * `title`, `description`, `variant` and `duration` mirror the most recently
+ * shown visible banner so single-banner consumers keep working.
  */
 export interface BannerState {
   isVisible: boolean;
@@ -47,6 +222,48 @@ export interface BannerState {
   description: string;
   variant: InfoType;
   duration?: number;
+  /** Banners currently on screen, oldest first */
+  items: InfoItem[];
+  /** Banners waiting for a free slot, in the order they will be shown */
+  queue: InfoItem[];
+}
+
+/**
+ * Record of a banner kept after it leaves the screen
+ */
+export interface InfoHistoryEntry {
+  id: string;
+  title: string;
+  description: string;
+  variant: InfoType;
+  /** When `show()` was called (ms since epoch) */
+  shownAt: number;
+  /** How many identical messages were coalesced into the banner */
+  count?: number;
+  /** When the banner was closed, unset while it is visible or queued */
+  dismissedAt?: number;
+  /** How the banner ended, unset while it is visible or queued */
+  outcome?: InfoOutcome;
+  /**
+   * Whether the user has seen the message. Set when the user dismisses the
+   * banner or clicks one of its actions, or through `markAsRead()`.
+   */
+  read: boolean;
+}
+
+/**
+ * Listener function type for history changes
+ */
+export type InfoHistoryListener = (history: InfoHistoryEntry[]) => void;
+
+/**
+ * Auto-dismiss timer of a visible banner, tracking remaining time so it can
+ * be paused and resumed
+ */
+interface DismissTimer {
+  timeoutId: ReturnType<typeof setTimeout> | null;
+  remaining: number;
+  startedAt: number;
 }
 
 /**
@@ -54,23 +271,233 @@ export interface BannerState {
  */
 export type BannerStateListener = (state: BannerState) => void;
 
+/**
+ * State before any banner is shown, also used as the server snapshot when
+ * rendering on the server
+ */
+export const INITIAL_BANNER_STATE: BannerState = {
+  isVisible: false,
+  title: '',
+  description: '',
+  variant: InfoType.INFO,
+  items: [],
+  queue: [],
+};
+
+/**
+ * Rules deciding how banners of different InfoTypes compete for slots
+ */
+export interface InfoPriorityRules {
+  /**
+   * Priority of each InfoType, merged over the defaults
+   * (INFO 0, SUCCESS 1, WARNING 2, ERROR 3). Higher numbers win.
+   */
+  priorities?: Partial<Record<InfoType, number>>;
+
+  /**
+   * When every slot is taken, a new banner displaces the lowest-priority
+   * visible banner if that one has a strictly lower priority. The displaced
+   * banner goes back to the queue and is shown again later.
+   *
+   * @default true
+   */
+  preempt?: boolean;
+
+  /**
+   * Order the queue by priority so lower-priority banners wait behind
+   * higher-priority ones. Banners of equal priority stay FIFO.
+   *
+   * @default true
+   */
+  queueByPriority?: boolean;
+
+  /**
+   * Types that ignore the default auto-dismiss and stay until dismissed,
+   * unless `show()` is given an explicit interval.
+   *
+   * @default [InfoType.ERROR]
+   */
+  persistentTypes?: InfoType[];
+}
+
+/**
+ * Rules for merging repeated messages
+ */
+export interface InfoDedupeOptions {
+  /**
+   * A message identical to a visible or queued banner, arriving within this
+   * many ms of that banner's latest occurrence, increments the banner's
+   * `count` instead of showing a new banner. The auto-dismiss timer is not
+   * reset. Messages with actions are never coalesced, since each caller
+   * handles its own action. Set to 0 to disable coalescing.
+   *
+   * @default 5000
+   */
+  windowMs?: number;
+
+  /**
+   * Maximum number of new banners per message key within `periodMs`.
+   * Further messages that cannot be coalesced are dropped.
+   */
+  rateLimit?: { max: number; periodMs: number };
+}
+
+/**
+ * Options for {@link WebInfoService}
+ */
+export interface WebInfoServiceOptions {
+  /**
+   * Maximum number of banners visible at the same time. Further banners
+   * wait in a queue and are promoted as visible ones are dismissed.
+   *
+   * @default 3
+   */
+  maxVisible?: number;
+
+  /** Priority and preemption rules, see {@link InfoPriorityRules} */
+  priorityRules?: InfoPriorityRules;
+
+  /**
+   * Deduplication of repeated messages, see {@link InfoDedupeOptions}.
+   * Pass `false` to show every message as its own banner.
+   */
+  dedupe?: InfoDedupeOptions | false;
+
+  /**
+   * Number of past banners kept in the history, newest first.
+   * Set to 0 to disable history.
+   *
+   * @default 50
+   */
+  historyLimit?: number;
+
+  /**
+   * Storage for banners shown with `persist: true`. Pass `null` to disable
+   * persistence.
+   *
+   * @default window.sessionStorage
+   */
+  flashStorage?: InfoFlashStorage | null;
+
+  /**
+   * Key the pending banners are saved under. Each service sharing a
+   * `flashStorage` needs its own key, since a service replaces everything
+   * stored under its key.
+   *
+   * @default 'sudobility.info.flash'
+   */
+  flashStorageKey?: string;
+
+  /**
+   * Mirror banners to other same-origin tabs over a BroadcastChannel.
+   * `true` mirrors every banner; see {@link InfoBroadcastOptions} to mirror
+   * only banners shown with `broadcast: true`. Banners dismissed by the user
+   * close in every tab. Ignored where BroadcastChannel is unavailable.
+   *
+   * @default false
+   */
+  broadcast?: boolean | InfoBroadcastOptions;
+
+  /**
+   * Translator for banners shown with `translate: true`. Defaults to the
+   * one registered with `setInfoTranslator()`.
+   */
+  translator?: InfoTranslator;
+}
+
 /**
  * Web implementation of InfoInterface using Banner component
  *
- * Manages banner state internally and notifies subscribers of changes.
+ * Manages a stack of visible banners plus a queue of pending ones and
+ * notifies subscribers of changes.
  *
  * @ai-pattern Observable service pattern for React integration
  */
 export class WebInfoService implements InfoInterface {
-  private state: BannerState = {
-    isVisible: false,
-    title: '',
-    description: '',
-    variant: InfoType.INFO,
-  };
+  private state: BannerState = INITIAL_BANNER_STATE;
 
+  private readonly maxVisible: number;
+  private readonly priorities: Partial<Record<InfoType, number>>;
+  private readonly preempt: boolean;
+  private readonly queueByPriority: boolean;
+  private readonly persistentTypes: InfoType[];
+  private readonly historyLimit: number;
+  private readonly dedupeWindowMs: number;
+  private readonly rateLimit: { max: number; periodMs: number } | undefined;
+  private readonly flashStorage: InfoFlashStorage | undefined;
+  private readonly flashStorageKey: string;
+  private readonly broadcaster: InfoBroadcaster | undefined;
+  private readonly broadcastAll: boolean;
+  private readonly translator: InfoTranslator | undefined;
+  private nextId = 0;
   private listeners: Set<BannerStateListener> = new Set();
-  private dismissTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private history: InfoHistoryEntry[] = [];
+  private historyListeners: Set<InfoHistoryListener> = new Set();
+  private dismissTimers: Map<string, DismissTimer> = new Map();
+  private pauseCounts: Map<string, number> = new Map();
+  private globalPauseCount = 0;
+  private outcomeResolvers: Map<string, Array<(outcome: InfoOutcome) => void>> =
+    new Map();
+  /** Latest banner and occurrence time per message key */
+  private lastOccurrences: Map<string, { id: string; at: number }> = new Map();
+  /** Creation times of recent banners per message key, for rate limiting */
+  private recentShows: Map<string, number[]> = new Map();
+  /** Active banners shown with `persist: true` */
+  private persisted: Map<string, PersistedInfo> = new Map();
+  /** Serializes flash storage reads and writes */
+  private flashTask: Promise<void> = Promise.resolve();
+  /** Shared cross-tab id of each mirrored banner, by local id */
+  private sharedIds: Map<string, string> = new Map();
+  /** Set while applying a message from another tab, to avoid echoing it */
+  private isApplyingBroadcast = false;
+  /** Counter keeping loading banners of concurrent operations apart */
+  private promiseCount = 0;
+
+  constructor(options: WebInfoServiceOptions = {}) {
+    const rules = options.priorityRules ?? {};
+    this.maxVisible = Math.max(1, options.maxVisible ?? DEFAULT_MAX_VISIBLE);
+    this.priorities = { ...DEFAULT_PRIORITIES, ...rules.priorities };
+    this.preempt = rules.preempt ?? true;
+    this.queueByPriority = rules.queueByPriority ?? true;
+    this.persistentTypes = rules.persistentTypes ?? [InfoType.ERROR];
+    this.historyLimit = Math.max(
+      0,
+      options.historyLimit ?? DEFAULT_HISTORY_LIMIT
+    );
+    const dedupe = options.dedupe === false ? { windowMs: 0 } : options.dedupe;
+    this.dedupeWindowMs = dedupe?.windowMs ?? DEFAULT_DEDUPE_WINDOW_MS;
+    this.rateLimit = dedupe?.rateLimit;
+    this.flashStorage =
+      options.flashStorage === null
+        ? undefined
+        : (options.flashStorage ?? getDefaultFlashStorage());
+    this.flashStorageKey = options.flashStorageKey ?? FLASH_STORAGE_KEY;
+
+    this.translator = options.translator;
+
+    const broadcast =
+      options.broadcast === true ? {} : options.broadcast || undefined;
+    this.broadcastAll = broadcast?.all ?? true;
+    this.broadcaster =
+      broadcast && InfoBroadcaster.isSupported()
+        ? new InfoBroadcaster(
+            broadcast.channelName ?? DEFAULT_BROADCAST_CHANNEL,
+            (message) => this.handleBroadcast(message)
+          )
+        : undefined;
+  }
+
+  /**
+   * Release timers and leave the broadcast channel
+   *
+   * The service keeps its current state but no banner auto-dismisses and no
+   * messages are exchanged with other tabs afterwards.
+   */
+  destroy(): void {
+    this.dismissTimers.forEach((timer) => this.stopTimer(timer));
+    this.dismissTimers.clear();
+    this.broadcaster?.close();
+  }
 
   /**
    * Subscribe to banner state changes
@@ -87,56 +514,761 @@ export class WebInfoService implements InfoInterface {
 
   /**
    * Get current banner state
+   *
+   * The returned object is replaced, never mutated, on every change, so it
+   * can be used directly as a `useSyncExternalStore` snapshot.
    */
   getState(): BannerState {
     return this.state;
   }
 
   /**
-   * Dismiss the current banner
+   * Subscribe to history changes
+   * @returns Unsubscribe function
+   */
+  subscribeHistory(listener: InfoHistoryListener): () => void {
+    this.historyListeners.add(listener);
+    // Immediately call with current history
+    listener(this.history);
+    return () => {
+      this.historyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get past and current banners, newest first. Like {@link getState}, the
+   * array is replaced rather than mutated on change.
+   */
+  getHistory(): InfoHistoryEntry[] {
+    return this.history;
+  }
+
+  /**
+   * Mark history entries as read
+   * @param id - Entry to mark, or omit to mark every entry
+   */
+  markAsRead(id?: string): void {
+    if (
+      !this.history.some(
+        (entry) => !entry.read && (id == null || entry.id === id)
+      )
+    ) {
+      return;
+    }
+    this.setHistory(
+      this.history.map((entry) =>
+        id == null || entry.id === id ? { ...entry, read: true } : entry
+      )
+    );
+  }
+
+  /**
+   * Remove every history entry
+   */
+  clearHistory(): void {
+    if (this.history.length > 0) {
+      this.setHistory([]);
+    }
+  }
+
+  /**
+   * Show banners persisted by a previous page load
+   *
+   * Called by {@link initializeInfoService}. Banners older than five
+   * minutes are dropped.
+   *
+   * @returns Number of banners restored
    */
-  dismiss(): void {
-    this.clearDismissTimeout();
-    this.setState({
-      ...this.state,
-      isVisible: false,
+  async restorePersisted(): Promise<number> {
+    const storage = this.flashStorage;
+    if (!storage) {
+      return 0;
+    }
+
+    let restored = 0;
+    this.runFlashTask(async () => {
+      const now = Date.now();
+      const entries = (
+        await readPersistedInfo(storage, this.flashStorageKey)
+      ).filter((entry) => now - entry.savedAt < FLASH_MAX_AGE_MS);
+      entries.forEach((entry) => {
+        const id = this.show(
+          entry.title,
+          entry.description,
+          entry.variant,
+          entry.duration,
+          entry.markdown ? { persist: true, markdown: true } : { persist: true }
+        );
+        // Keep the original age so banners cannot outlive FLASH_MAX_AGE_MS
+        const persisted = this.persisted.get(id);
+        if (persisted) {
+          persisted.savedAt = entry.savedAt;
+        }
+      });
+      restored = entries.length;
+      this.savePersisted();
+    });
+    await this.flashTask;
+    return restored;
+  }
+
+  /**
+   * Dismiss a banner
+   * @param id - Banner to dismiss (visible or queued). Defaults to the most
+   * recently shown visible banner.
+   */
+  dismiss(id?: string): void {
+    const targetId = id ?? this.state.items[this.state.items.length - 1]?.id;
+    if (targetId == null) {
+      return;
+    }
+    this.removeItem(targetId, 'dismissed');
+  }
+
+  /**
+   * Dismiss every visible banner and drop all queued ones
+   */
+  dismissAll(): void {
+    const { items, queue } = this.state;
+    this.dismissTimers.forEach((timer) => this.stopTimer(timer));
+    this.dismissTimers.clear();
+    this.pauseCounts.clear();
+    this.setState([], []);
+    [...items, ...queue].forEach((item) => this.endItem(item.id, 'dismissed'));
+  }
+
+  /**
+   * Pause auto-dismiss, keeping the remaining time
+   *
+   * Calls nest: every `pause()` must be matched by a `resume()` with the
+   * same argument before the timer runs again.
+   *
+   * @param id - Banner to pause. Pauses every banner, including ones
+   * promoted later, when omitted.
+   */
+  pause(id?: string): void {
+    if (id == null) {
+      this.globalPauseCount++;
+      this.dismissTimers.forEach((timer) => this.stopTimer(timer));
+      return;
+    }
+
+    this.pauseCounts.set(id, (this.pauseCounts.get(id) ?? 0) + 1);
+    const timer = this.dismissTimers.get(id);
+    if (timer) {
+      this.stopTimer(timer);
+    }
+  }
+
+  /**
+   * Undo one {@link WebInfoService.pause} call
+   * @param id - Banner to resume, or omit to undo a global pause
+   */
+  resume(id?: string): void {
+    if (id == null) {
+      if (this.globalPauseCount === 0) {
+        return;
+      }
+      this.globalPauseCount--;
+      this.dismissTimers.forEach((timer, timerId) =>
+        this.runTimer(timerId, timer)
+      );
+      return;
+    }
+
+    const count = this.pauseCounts.get(id);
+    if (count == null) {
+      return;
+    }
+    if (count > 1) {
+      this.pauseCounts.set(id, count - 1);
+      return;
+    }
+    this.pauseCounts.delete(id);
+    const timer = this.dismissTimers.get(id);
+    if (timer) {
+      this.runTimer(id, timer);
+    }
+  }
+
+  /**
+   * Run the handler of an action on a visible banner
+   *
+   * The banner is dismissed afterwards unless the action sets
+   * `dismiss: false`.
+   *
+   * @param id - Banner the action belongs to
+   * @param index - Index of the action in the banner's `actions`
+   */
+  triggerAction(id: string, index: number): void {
+    const item = this.state.items.find((visible) => visible.id === id);
+    const action = item?.actions?.[index];
+    if (!action) {
+      return;
+    }
+
+    action.handler(id);
+    const outcome: InfoOutcome = { action: action.label };
+    if (action.dismiss !== false) {
+      this.removeItem(id, outcome);
+    } else {
+      this.resolveOutcome(id, outcome);
+      this.markAsRead(id);
+    }
+  }
+
+  /**
+   * Show the progress of an async operation
+   *
+   * Shows the loading banner until the promise settles, then replaces it in
+   * place with the success or error banner, which auto-dismisses like any
+   * other banner of its type. If the user closed the loading banner, the
+   * result is shown as a new banner; if the result is not shown (e.g. it
+   * hit the rate limit), the loading banner is closed anyway.
+   *
+   * @param promise - The operation, or a function starting it
+   * @param options - Show options applied to all three banners, except
+   * `persist`, which only applies to the result
+   * @returns The original promise's value; rejections are passed through
+   *
+   * @example
+   * ```ts
+   * await service.promise(saveDocument(doc), {
+   *   loading: 'Saving…',
+   *   success: (saved) => `Saved ${saved.name}`,
+   *   error: (error) => ({ title: 'Save failed', description: String(error) }),
+   * });
+   * ```
+   */
+  async promise<T>(
+    promise: Promise<T> | (() => Promise<T>),
+    messages: InfoPromiseMessages<T>,
+    options: Omit<InfoShowOptions, 'replaces' | 'key'> = {}
+  ): Promise<T> {
+    // A persisted loading banner would come back after a reload and never close
+    const { persist: _persist, ...loadingOptions } = options;
+    const loadingId = this.showMessage(messages.loading, InfoType.INFO, 0, {
+      ...loadingOptions,
+      key: `\u0000promise\u0000${String(++this.promiseCount)}`,
+    });
+    const settled = { ...options, replaces: loadingId };
+
+    try {
+      const value = await (typeof promise === 'function' ? promise() : promise);
+      const success =
+        typeof messages.success === 'function'
+          ? messages.success(value)
+          : messages.success;
+      this.showMessage(success, InfoType.SUCCESS, undefined, settled);
+      return value;
+    } catch (error) {
+      const failure =
+        typeof messages.error === 'function'
+          ? messages.error(error)
+          : messages.error;
+      this.showMessage(failure, InfoType.ERROR, undefined, settled);
+      throw error;
+    } finally {
+      // Still there when the result was suppressed or coalesced elsewhere
+      this.dismiss(loadingId);
+    }
+  }
+
+  /**
+   * Show a banner and wait for it to end
+   *
+   * Takes the same arguments as {@link WebInfoService.show}. The promise
+   * resolves once, on the first action click or when the banner is closed,
+   * whichever happens first. Messages coalesced into an existing banner
+   * share its outcome; messages with actions always get a banner of their
+   * own.
+   *
+   * @example
+   * ```ts
+   * const outcome = await service.showAsync('Deleted', '1 item removed',
+   *   InfoType.INFO, undefined, { actions: [{ label: 'Undo', handler() {} }] });
+   * if (typeof outcome === 'object' && outcome.action === 'Undo') {
+   *   restoreItem();
+   * }
+   * ```
+   */
+  showAsync(
+    title: string,
+    text: string,
+    type: InfoType,
+    interval?: Optional<number>,
+    options?: InfoShowOptions
+  ): Promise<InfoOutcome> {
+    const id = this.show(title, text, type, interval, options);
+    if (!this.isActive(id)) {
+      return Promise.resolve('suppressed');
+    }
+    return new Promise((resolve) => {
+      this.outcomeResolvers.set(id, [
+        ...(this.outcomeResolvers.get(id) ?? []),
+        resolve,
+      ]);
     });
   }
 
   /**
    * Show an information banner to the user
+   *
+   * The banner is displayed immediately if fewer than `maxVisible` banners
+   * are on screen or it outranks a visible one (see
+   * {@link InfoPriorityRules}), otherwise it is queued. Repeats of a
+   * message already on screen are coalesced, see {@link InfoDedupeOptions}.
+   *
+   * @param options - Web-only extras such as action buttons or i18n keys;
+   * callers that only know InfoInterface can omit it
+   * @returns Id of the new banner or of the banner the message was
+   * coalesced into. Messages dropped by the rate limit return the id of the
+   * banner for the same key still on screen, or an empty string when there
+   * is none or the message has actions.
    */
   show(
     title: string,
     text: string,
     type: InfoType,
-    interval?: Optional<number>
-  ): void {
-    this.clearDismissTimeout();
+    interval?: Optional<number>,
+    options: InfoShowOptions = {}
+  ): string {
+    if (options.translate) {
+      return this.show(
+        this.translate(title, options.params),
+        this.translate(text, options.params),
+        type,
+        interval,
+        { ...options, translate: false }
+      );
+    }
+
+    const key = options.key ?? `${type}\u0000${title}\u0000${text}`;
+    const now = Date.now();
+    const previous = this.lastOccurrences.get(key);
+    // Each caller owns its actions, so never hand it another banner's outcome
+    const hasActions = Boolean(options.actions?.length);
+
+    if (
+      options.replaces == null &&
+      !hasActions &&
+      previous &&
+      this.isActive(previous.id) &&
+      now - previous.at < this.dedupeWindowMs
+    ) {
+      this.coalesce(previous.id);
+      this.lastOccurrences.set(key, { id: previous.id, at: now });
+      return previous.id;
+    }
+    if (this.isRateLimited(key, now)) {
+      return hasActions ? '' : (previous?.id ?? '');
+    }
 
-    const newState: BannerState = {
-      isVisible: true,
+    const item: InfoItem = {
+      id: `info-${String(++this.nextId)}`,
       title,
       description: text,
       variant: type,
     };
 
     if (interval != null) {
-      newState.duration = interval;
+      item.duration = interval;
+    }
+    if (options.actions?.length) {
+      item.actions = options.actions;
+    }
+    if (options.content != null) {
+      item.content = options.content;
+    }
+    if (options.markdown) {
+      item.markdown = true;
+    }
+    this.addHistoryEntry(item);
+    if (options.persist && this.flashStorage) {
+      const persisted: PersistedInfo = {
+        title,
+        description: text,
+        variant: type,
+        savedAt: now,
+      };
+      if (item.duration != null) {
+        persisted.duration = item.duration;
+      }
+      if (item.markdown) {
+        persisted.markdown = true;
+      }
+      this.persisted.set(item.id, persisted);
+      this.savePersisted();
+    }
+    this.lastOccurrences.set(key, { id: item.id, at: now });
+    if (this.broadcaster && (options.broadcast ?? this.broadcastAll)) {
+      this.mirrorItem(item, options.replaces);
+    }
+    if (this.rateLimit) {
+      this.recentShows.set(key, [...(this.recentShows.get(key) ?? []), now]);
     }
 
-    this.setState(newState);
+    const { items, queue } = this.state;
+    if (options.replaces != null && this.replaceItem(options.replaces, item)) {
+      return item.id;
+    }
 
-    // Auto-dismiss after duration (default 5000ms)
-    const dismissAfter = interval ?? 5000;
-    if (dismissAfter > 0) {
-      this.dismissTimeoutId = setTimeout(() => {
-        this.dismiss();
-      }, dismissAfter);
+    if (items.length < this.maxVisible) {
+      this.setState([...items, item], queue);
+      this.startDismissTimeout(item);
+      return item.id;
+    }
+
+    const displaced = this.preempt ? this.findPreemptable(item) : undefined;
+    if (displaced) {
+      this.clearDismissTimeout(displaced.id);
+      this.setState(
+        [...items.filter((visible) => visible !== displaced), item],
+        this.enqueue(queue, displaced, true)
+      );
+      this.startDismissTimeout(item);
+    } else {
+      this.setState(items, this.enqueue(queue, item, false));
+    }
+
+    return item.id;
+  }
+
+  /** Show an {@link InfoPromiseMessage} */
+  private showMessage(
+    message: InfoPromiseMessage,
+    type: InfoType,
+    interval: number | undefined,
+    options: InfoShowOptions
+  ): string {
+    const {
+      title,
+      description = '',
+      duration = interval,
+    } = typeof message === 'string' ? { title: message } : message;
+    return this.show(title, description, type, duration, options);
+  }
+
+  /** Resolve an i18n key, leaving empty strings alone */
+  private translate(key: string, params?: InfoTranslationParams): string {
+    if (!key) {
+      return key;
+    }
+    const translator = this.translator ?? getInfoTranslator();
+    return translator ? translator(key, params) : interpolate(key, params);
+  }
+
+  /** Post a new banner to the other tabs */
+  private mirrorItem(item: InfoItem, replaces: string | undefined): void {
+    const sharedId = `${this.broadcaster?.source ?? ''}:${item.id}`;
+    this.sharedIds.set(item.id, sharedId);
+
+    const message: Omit<
+      Extract<InfoBroadcastMessage, { type: 'show' }>,
+      'source'
+    > = {
+      type: 'show',
+      id: sharedId,
+      title: item.title,
+      description: item.description,
+      variant: item.variant,
+    };
+    if (item.duration != null) {
+      message.duration = item.duration;
+    }
+    if (item.markdown) {
+      message.markdown = true;
+    }
+    const replacedSharedId = replaces && this.sharedIds.get(replaces);
+    if (replacedSharedId) {
+      message.replaces = replacedSharedId;
+    }
+    this.broadcaster?.post(message);
+  }
+
+  /** Apply a show or dismiss coming from another tab */
+  private handleBroadcast(message: InfoBroadcastMessage): void {
+    const localId = this.findLocalId(message.id);
+    this.isApplyingBroadcast = true;
+    try {
+      if (message.type === 'dismiss') {
+        if (localId) {
+          this.removeItem(localId, 'dismissed');
+        }
+        return;
+      }
+      if (localId) {
+        return;
+      }
+
+      const options: InfoShowOptions = { broadcast: false };
+      if (message.markdown) {
+        options.markdown = true;
+      }
+      const replaces = message.replaces && this.findLocalId(message.replaces);
+      if (replaces) {
+        options.replaces = replaces;
+      }
+      const id = this.show(
+        message.title,
+        message.description,
+        message.variant,
+        message.duration,
+        options
+      );
+      if (id && !this.sharedIds.has(id)) {
+        this.sharedIds.set(id, message.id);
+      }
+    } finally {
+      this.isApplyingBroadcast = false;
     }
   }
 
-  private setState(newState: BannerState): void {
+  private findLocalId(sharedId: string): string | undefined {
+    for (const [localId, id] of this.sharedIds) {
+      if (id === sharedId) {
+        return localId;
+      }
+    }
+    return undefined;
+  }
+
+  private isActive(id: string): boolean {
+    return (
+      this.state.items.some((item) => item.id === id) ||
+      this.state.queue.some((item) => item.id === id)
+    );
+  }
+
+  /** Count one more occurrence on an existing banner */
+  private coalesce(id: string): void {
+    const bump = (list: InfoItem[]) =>
+      list.map((item) =>
+        item.id === id ? { ...item, count: (item.count ?? 1) + 1 } : item
+      );
+    this.setState(bump(this.state.items), bump(this.state.queue));
+    this.setHistory(
+      this.history.map((entry) =>
+        entry.id === id ? { ...entry, count: (entry.count ?? 1) + 1 } : entry
+      )
+    );
+  }
+
+  /** Whether a new banner for this message key would exceed the rate limit */
+  private isRateLimited(key: string, now: number): boolean {
+    if (!this.rateLimit) {
+      return false;
+    }
+    const { max, periodMs } = this.rateLimit;
+    const recent = (this.recentShows.get(key) ?? []).filter(
+      (at) => now - at < periodMs
+    );
+    this.recentShows.set(key, recent);
+    return recent.length >= max;
+  }
+
+  /**
+   * Put a banner in the slot of an existing one
+   * @returns false when no banner with `id` exists
+   */
+  private replaceItem(id: string, item: InfoItem): boolean {
+    const { items, queue } = this.state;
+    const isVisible = items.some((visible) => visible.id === id);
+    if (!isVisible && !queue.some((queued) => queued.id === id)) {
+      return false;
+    }
+
+    const swap = (list: InfoItem[]) =>
+      list.map((existing) => (existing.id === id ? item : existing));
+
+    this.clearDismissTimeout(id);
+    this.setState(isVisible ? swap(items) : items, swap(queue));
+    if (isVisible) {
+      this.startDismissTimeout(item);
+    }
+    this.endItem(id, 'replaced');
+    return true;
+  }
+
+  private getPriority(item: InfoItem): number {
+    return this.priorities[item.variant] ?? 0;
+  }
+
+  /**
+   * Find the visible banner a new one may displace: the oldest banner with
+   * the lowest priority, provided it ranks strictly below the newcomer.
+   */
+  private findPreemptable(incoming: InfoItem): InfoItem | undefined {
+    let lowest: InfoItem | undefined;
+    for (const item of this.state.items) {
+      if (!lowest || this.getPriority(item) < this.getPriority(lowest)) {
+        lowest = item;
+      }
+    }
+    return lowest && this.getPriority(lowest) < this.getPriority(incoming)
+      ? lowest
+      : undefined;
+  }
+
+  /**
+   * Insert a banner into the queue. Displaced banners go ahead of queued
+   * banners of the same priority since they were already on screen.
+   */
+  private enqueue(
+    queue: InfoItem[],
+    item: InfoItem,
+    displaced: boolean
+  ): InfoItem[] {
+    if (!this.queueByPriority) {
+      return displaced ? [item, ...queue] : [...queue, item];
+    }
+
+    const priority = this.getPriority(item);
+    let index = queue.findIndex((queued) =>
+      displaced
+        ? this.getPriority(queued) <= priority
+        : this.getPriority(queued) < priority
+    );
+    if (index === -1) {
+      index = queue.length;
+    }
+    return [...queue.slice(0, index), item, ...queue.slice(index)];
+  }
+
+  private removeItem(id: string, outcome: InfoOutcome): void {
+    this.clearDismissTimeout(id);
+
+    const queue = this.state.queue.filter((item) => item.id !== id);
+    const items = this.state.items.filter((item) => item.id !== id);
+    if (
+      queue.length === this.state.queue.length &&
+      items.length === this.state.items.length
+    ) {
+      return;
+    }
+
+    // Promote queued banners into the freed slots
+    const promoted: InfoItem[] = [];
+    while (items.length < this.maxVisible && queue.length > 0) {
+      const next = queue.shift() as InfoItem;
+      items.push(next);
+      promoted.push(next);
+    }
+
+    this.setState(items, queue);
+    promoted.forEach((item) => this.startDismissTimeout(item));
+    this.endItem(id, outcome);
+  }
+
+  /** Settle a banner that has left the screen or the queue */
+  private endItem(id: string, outcome: InfoOutcome): void {
+    this.resolveOutcome(id, outcome);
+    if (this.persisted.delete(id)) {
+      this.savePersisted();
+    }
+
+    // Close the banner in the other tabs too, unless it timed out on its own
+    // or the dismissal came from another tab
+    const sharedId = this.sharedIds.get(id);
+    this.sharedIds.delete(id);
+    if (sharedId && outcome !== 'timeout' && !this.isApplyingBroadcast) {
+      this.broadcaster?.post({ type: 'dismiss', id: sharedId });
+    }
+    this.lastOccurrences.forEach((occurrence, key) => {
+      if (occurrence.id === id) {
+        this.lastOccurrences.delete(key);
+      }
+    });
+
+    if (this.history.some((entry) => entry.id === id)) {
+      const read = outcome !== 'timeout' && outcome !== 'replaced';
+      this.setHistory(
+        this.history.map((entry) =>
+          entry.id === id
+            ? {
+                ...entry,
+                dismissedAt: Date.now(),
+                outcome,
+                read: entry.read || read,
+              }
+            : entry
+        )
+      );
+    }
+  }
+
+  /** Write the active persisted banners once earlier storage work is done */
+  private savePersisted(): void {
+    const storage = this.flashStorage;
+    if (storage) {
+      this.runFlashTask(() =>
+        writePersistedInfo(
+          storage,
+          [...this.persisted.values()],
+          this.flashStorageKey
+        )
+      );
+    }
+  }
+
+  private runFlashTask(task: () => Promise<void>): void {
+    this.flashTask = this.flashTask.then(task).catch((error: unknown) => {
+      console.warn('Failed to persist info banners:', error);
+    });
+  }
+
+  private addHistoryEntry(item: InfoItem): void {
+    if (this.historyLimit === 0) {
+      return;
+    }
+    const entry: InfoHistoryEntry = {
+      id: item.id,
+      title: item.title,
+      description: item.description,
+      variant: item.variant,
+      shownAt: Date.now(),
+      read: false,
+    };
+    this.setHistory([entry, ...this.history].slice(0, this.historyLimit));
+  }
+
+  private setHistory(history: InfoHistoryEntry[]): void {
+    this.history = history;
+    this.historyListeners.forEach((listener) => listener(this.history));
+  }
+
+  private resolveOutcome(id: string, outcome: InfoOutcome): void {
+    const resolvers = this.outcomeResolvers.get(id);
+    if (resolvers) {
+      this.outcomeResolvers.delete(id);
+      resolvers.forEach((resolve) => resolve(outcome));
+    }
+  }
+
+  private setState(items: InfoItem[], queue: InfoItem[]): void {
+    const current = items[items.length - 1];
+    const newState: BannerState = current
+      ? {
+          isVisible: true,
+          title: current.title,
+          description: current.description,
+          variant: current.variant,
+          items,
+          queue,
+        }
+      : {
+          isVisible: false,
+          title: this.state.title,
+          description: this.state.description,
+          variant: this.state.variant,
+          items,
+          queue,
+        };
+
+    if (current?.duration != null) {
+      newState.duration = current.duration;
+    }
+
     this.state = newState;
     this.notifyListeners();
   }
@@ -145,19 +1277,67 @@ export class WebInfoService implements InfoInterface {
     this.listeners.forEach((listener) => listener(this.state));
   }
 
-  private clearDismissTimeout(): void {
-    if (this.dismissTimeoutId) {
-      clearTimeout(this.dismissTimeoutId);
-      this.dismissTimeoutId = null;
+  private startDismissTimeout(item: InfoItem): void {
+    // Auto-dismiss after duration (default 5000ms, none for persistent types)
+    const dismissAfter =
+      item.duration ??
+      (this.persistentTypes.includes(item.variant) ? 0 : DEFAULT_DURATION_MS);
+    if (dismissAfter > 0) {
+      const timer: DismissTimer = {
+        timeoutId: null,
+        remaining: dismissAfter,
+        startedAt: 0,
+      };
+      this.dismissTimers.set(item.id, timer);
+      this.runTimer(item.id, timer);
+    }
+  }
+
+  private clearDismissTimeout(id: string): void {
+    const timer = this.dismissTimers.get(id);
+    if (timer) {
+      this.stopTimer(timer);
+      this.dismissTimers.delete(id);
+    }
+    this.pauseCounts.delete(id);
+  }
+
+  /** Start counting down the remaining time unless the banner is paused */
+  private runTimer(id: string, timer: DismissTimer): void {
+    if (
+      timer.timeoutId !== null ||
+      this.globalPauseCount > 0 ||
+      this.pauseCounts.has(id)
+    ) {
+      return;
     }
+    timer.startedAt = Date.now();
+    timer.timeoutId = setTimeout(() => {
+      this.removeItem(id, 'timeout');
+    }, timer.remaining);
+  }
+
+  /** Stop counting down, keeping the time that is left */
+  private stopTimer(timer: DismissTimer): void {
+    if (timer.timeoutId === null) {
+      return;
+    }
+    clearTimeout(timer.timeoutId);
+    timer.timeoutId = null;
+    timer.remaining = Math.max(
+      0,
+      timer.remaining - (Date.now() - timer.startedAt)
+    );
   }
 }
 
 /**
  * Create a WebInfoService instance
  */
-export function createWebInfoService(): WebInfoService {
-  return new WebInfoService();
+export function createWebInfoService(
+  options?: WebInfoServiceOptions
+): WebInfoService {
+  return new WebInfoService(options);
 }
 
 // Singleton instance
@@ -165,7 +1345,8 @@ let infoServiceInstance: WebInfoService | null = null;
 
 /**
  * Initialize the info service singleton
- * Also registers with @sudobility/di so getInfoService() works from both packages
+ * Also registers with @sudobility/di so getInfoService() works from both packages,
+ * then shows flash banners persisted by the previous page load
  * @param service - WebInfoService instance (optional, creates one if not provided)
  */
 export function initializeInfoService(service?: WebInfoService): void {
@@ -175,6 +1356,7 @@ export function initializeInfoService(service?: WebInfoService): void {
   infoServiceInstance = service ?? new WebInfoService();
   // Also register with @sudobility/di so getInfoService() from that package works
   initializeDiInfoService(infoServiceInstance);
+  void infoServiceInstance.restorePersisted();
 }
 
 /**
@@ -191,8 +1373,10 @@ export function getInfoService(): WebInfoService {
 }
 
 /**
- * Reset info service (for testing only)
+ * Reset info service, destroying the current instance
+ * (for testing and `teardownWebApp()`)
  */
 export function resetInfoService(): void {
+  infoServiceInstance?.destroy();
   infoServiceInstance = null;
 }
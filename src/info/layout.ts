@@ -0,0 +1,95 @@
+/**
+ * Layout helpers for InfoBanner
+ *
+ * Maps the placement, stacking and transition props to class names so the
+ * component stays declarative.
+ */
+
+import type { InfoItem } from './info.web.js';
+
+/**
+ * Where InfoBanner renders its stack
+ *
+ * `'inline'` keeps the stack in the document flow where the component is
+ * rendered; the other placements pin it to the viewport.
+ */
+export type InfoBannerPlacement =
+  | 'inline'
+  | 'top'
+  | 'bottom'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+/**
+ * Order of the stacked banners
+ *
+ * - `'oldest-first'` -- the newest banner is at the end of the stack
+ * - `'newest-first'` -- the newest banner is at the start of the stack
+ */
+export type InfoBannerStackDirection = 'oldest-first' | 'newest-first';
+
+/**
+ * Enter animation of each banner. The presets use tailwindcss-animate
+ * classes; any other string is used as the class name as is.
+ */
+export type InfoBannerTransition = 'none' | 'fade' | 'slide' | (string & {});
+
+const PLACEMENT_CLASSES: Record<InfoBannerPlacement, string> = {
+  inline: '',
+  top: 'fixed inset-x-0 top-4 z-50 mx-auto w-full px-4',
+  bottom: 'fixed inset-x-0 bottom-4 z-50 mx-auto w-full px-4',
+  'top-left': 'fixed left-4 top-4 z-50 w-full',
+  'top-right': 'fixed right-4 top-4 z-50 w-full',
+  'bottom-left': 'fixed bottom-4 left-4 z-50 w-full',
+  'bottom-right': 'fixed bottom-4 right-4 z-50 w-full',
+};
+
+/**
+ * Class name of the stack container
+ */
+export function getInfoContainerClassName(
+  placement: InfoBannerPlacement,
+  isMotionReduced: boolean
+): string {
+  return [
+    'flex flex-col gap-2',
+    PLACEMENT_CLASSES[placement],
+    isMotionReduced && '[&_*]:!animate-none [&_*]:!transition-none',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Class name animating a banner in; slides come from the edge the stack is
+ * pinned to
+ */
+export function getInfoTransitionClassName(
+  transition: InfoBannerTransition,
+  placement: InfoBannerPlacement
+): string {
+  switch (transition) {
+    case 'none':
+      return '';
+    case 'fade':
+      return 'animate-in fade-in duration-200';
+    case 'slide':
+      return placement.startsWith('bottom')
+        ? 'animate-in fade-in slide-in-from-bottom-2 duration-200'
+        : 'animate-in fade-in slide-in-from-top-2 duration-200';
+    default:
+      return transition;
+  }
+}
+
+/**
+ * Visible banners in display order
+ */
+export function orderInfoItems(
+  items: InfoItem[],
+  direction: InfoBannerStackDirection
+): InfoItem[] {
+  return direction === 'newest-first' ? [...items].reverse() : items;
+}
@@ -0,0 +1,88 @@
+/**
+ * Safe markdown subset for banner descriptions
+ *
+ * Supports `[links](https://…)`, `**strong**`, `*emphasis*` / `_emphasis_`
+ * and `` `code` ``. Nothing is parsed as HTML and markers do not nest, so
+ * any description can be rendered without sanitizing.
+ */
+
+import React from 'react';
+
+const TOKEN_PATTERN =
+  /\[([^\]]+)\]\(([^)\s]+)\)|\*\*([^*]+)\*\*|\*([^*]+)\*|_([^_]+)_|`([^`]+)`/g;
+
+/** Stand-in origin for resolving paths the way a browser would. */
+const PATH_BASE = 'https://same-site.invalid';
+
+/**
+ * Whether a link target is allowed: http(s), mailto, same-site paths and
+ * fragments. Anything else, such as `javascript:`, is rendered as text.
+ */
+export function isSafeHref(href: string): boolean {
+  return (
+    /^(https?:|mailto:)/i.test(href) ||
+    (href.startsWith('/') && isSameSitePath(href)) ||
+    href.startsWith('#')
+  );
+}
+
+/** Paths like `//host` or `/\host` resolve to another site. */
+function isSameSitePath(path: string): boolean {
+  try {
+    return new URL(path, PATH_BASE).origin === PATH_BASE;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Render a description written in the markdown subset
+ */
+export function renderInfoMarkdown(text: string): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index;
+    if (index > lastIndex) {
+      nodes.push(text.slice(lastIndex, index));
+    }
+    lastIndex = index + match[0].length;
+
+    const [, label, href, strong, em, emAlt, code] = match;
+    const key = nodes.length;
+    if (label != null && href != null) {
+      nodes.push(
+        isSafeHref(href) ? (
+          <a key={key} href={href} className="underline">
+            {label}
+          </a>
+        ) : (
+          label
+        )
+      );
+    } else if (strong != null) {
+      nodes.push(<strong key={key}>{strong}</strong>);
+    } else if (code != null) {
+      nodes.push(<code key={key}>{code}</code>);
+    } else {
+      nodes.push(<em key={key}>{em ?? emAlt}</em>);
+    }
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+  return nodes;
+}
+
+/**
+ * Plain text of a description written in the markdown subset, used for
+ * screen-reader announcements
+ */
+export function infoMarkdownToText(text: string): string {
+  return text.replace(TOKEN_PATTERN, (match, ...groups: unknown[]) => {
+    const [label, , strong, em, emAlt, code] = groups as (string | undefined)[];
+    return label ?? strong ?? em ?? emAlt ?? code ?? match;
+  });
+}
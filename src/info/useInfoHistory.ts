@@ -0,0 +1,66 @@
+/**
+ * React hook exposing the info service history
+ *
+ * Backs notification-center UIs such as a bell icon listing past banners.
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import type { InfoHistoryEntry } from './info.web.js';
+import { useInfoService } from './InfoServiceProvider.js';
+
+/** History rendered on the server, where no banner has been shown. */
+const SERVER_HISTORY: InfoHistoryEntry[] = [];
+
+/**
+ * Hook to subscribe to the info service history
+ *
+ * @returns Past and current banners (newest first), the number of unread
+ * entries, and functions to mark entries as read or clear the history
+ *
+ * @example
+ * ```tsx
+ * function NotificationBell() {
+ *   const { history, unreadCount, markAsRead } = useInfoHistory();
+ *
+ *   return (
+ *     <Menu onOpen={() => markAsRead()} badge={unreadCount}>
+ *       {history.map((entry) => (
+ *         <MenuItem key={entry.id}>{entry.title}</MenuItem>
+ *       ))}
+ *     </Menu>
+ *   );
+ * }
+ * ```
+ */
+export function useInfoHistory(): {
+  history: InfoHistoryEntry[];
+  unreadCount: number;
+  markAsRead: (id?: string) => void;
+  clearHistory: () => void;
+} {
+  const service = useInfoService();
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => service.subscribeHistory(onStoreChange),
+    [service]
+  );
+  const history = useSyncExternalStore(
+    subscribe,
+    () => service.getHistory(),
+    () => SERVER_HISTORY
+  );
+
+  const markAsRead = useCallback(
+    (id?: string) => {
+      service.markAsRead(id);
+    },
+    [service]
+  );
+
+  const clearHistory = useCallback(() => {
+    service.clearHistory();
+  }, [service]);
+
+  const unreadCount = history.filter((entry) => !entry.read).length;
+
+  return { history, unreadCount, markAsRead, clearHistory };
+}
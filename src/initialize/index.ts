@@ -11,6 +11,34 @@ export {
   type AnalyticsEventParams,
   // Web app initialization
   initializeWebApp,
+  initializeWebAppWithReport,
+  teardownWebApp,
+  createDefaultWebAppSteps,
   type WebAppInitOptions,
+  type WebAppConsentOptions,
   type RevenueCatConfig,
 } from './initialize.js';
+export {
+  getRevenueCatState,
+  subscribeRevenueCat,
+  whenRevenueCatReady,
+  retryRevenueCat,
+  loadRevenueCat,
+  identifyRevenueCatUser,
+  type RevenueCatIdentityObservable,
+  type RevenueCatIdentitySource,
+  type RevenueCatState,
+  type RevenueCatStateListener,
+  type RevenueCatStatus,
+} from './revenuecat.js';
+export { useRevenueCatStatus } from './useRevenueCatStatus.js';
+export {
+  runWebAppSteps,
+  sortWebAppSteps,
+  type WebAppInitReport,
+  type WebAppStep,
+  type WebAppStepContext,
+  type WebAppStepReport,
+  type WebAppStepRunOptions,
+  type WebAppStepStatus,
+} from './steps.js';
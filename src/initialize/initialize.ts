@@ -6,16 +6,56 @@
 
 import {
   initializeStorageService,
+  getStorageService,
   initializeNetworkService,
   initializeFirebaseService,
+  getFirebaseService,
   FirebaseAnalyticsService,
   initializeFirebaseAnalytics,
   getAnalyticsService,
   resetAnalyticsService,
+  resetFirebaseService,
   type FirebaseConfig,
   type AnalyticsEventParams,
+  type AnalyticsService,
 } from '@sudobility/di/web';
-import { initializeInfoService } from '../info/index.js';
+import {
+  createWebInfoService,
+  initializeInfoService,
+  resetInfoService,
+  setInfoTranslator,
+  type InfoTranslator,
+} from '../info/index.js';
+import {
+  AnalyticsEventQueue,
+  createQueuedAnalytics,
+  trackPageViews,
+  type AnalyticsQueueOptions,
+  type PageViewTrackerOptions,
+} from '../analytics/index.js';
+import {
+  ConsentManager,
+  createConsentGatedAnalytics,
+  initializeConsentManager,
+  resetConsentManager,
+  type ConsentGatedAnalyticsOptions,
+  type ConsentManagerOptions,
+} from '../consent/index.js';
+import { setAnalyticsCollectionEnabled } from '../consent/analytics.js';
+import {
+  runWebAppSteps,
+  type WebAppInitReport,
+  type WebAppStep,
+  type WebAppStepContext,
+  type WebAppStepRunOptions,
+} from './steps.js';
+import {
+  deferRevenueCat,
+  resetRevenueCat,
+  startRevenueCat,
+  suspendRevenueCat,
+  type RevenueCatConfig,
+} from './revenuecat.js';
 
 // Re-export analytics types and functions from di for convenience
 export {
@@ -26,50 +66,28 @@ export {
   type AnalyticsEventParams,
 };
 
+export type { RevenueCatConfig };
+
 // ============================================================================
 // Web App Initialization
 // ============================================================================
 
 /**
- * RevenueCat configuration
+ * Consent configuration
  */
-export interface RevenueCatConfig {
-  /** RevenueCat API key (production) */
-  apiKey: string;
-
-  /** RevenueCat API key (sandbox) - optional, uses production key if not provided */
-  apiKeySandbox?: string;
-
-  /** Whether we're in production mode (affects which key to use) */
-  isProduction?: boolean;
-
-  /** Free tier package configuration */
-  freeTierPackage?: { packageId: string; name: string };
-
+export interface WebAppConsentOptions extends ConsentManagerOptions {
   /**
-   * Maximum number of retry attempts when RevenueCat initialization fails.
-   * Each retry waits exponentially longer (1 s, 2 s, 4 s, ...).
-   * Set to 0 to disable retries.
-   *
-   * @default 2
+   * Manager to use instead of creating one; `defaults`, `storage` and
+   * `storageKey` are then ignored
    */
-  maxRetries?: number;
+  manager?: ConsentManager;
 
   /**
-   * When `true`, RevenueCat initialization is deferred and not awaited during
-   * `initializeWebApp()`. Instead, it runs in the background so it does not
-   * block app startup. Failures are still logged and retried.
+   * Analytics calls queued while waiting for consent
    *
-   * @default false
+   * @default 100
    */
-  lazy?: boolean;
-
-  /**
-   * Optional callback invoked when RevenueCat initialization fails after all
-   * retry attempts. Receives the final error so the consumer can surface it
-   * in their UI or error-reporting pipeline.
-   */
-  onError?: (error: unknown) => void;
+  maxQueuedEvents?: number;
 }
 
 /**
@@ -82,31 +100,344 @@ export interface WebAppInitOptions {
   /** Options controlling which Firebase services to enable (analytics, remote config, messaging) */
   firebaseInitOptions?: import('@sudobility/di').FirebaseInitOptions;
 
+  /**
+   * Optional: Gate analytics, messaging and RevenueCat behind the user's
+   * consent. Choices persist through the storage service by default. Pass
+   * `true` for the defaults (everything denied until the user decides).
+   */
+  consent?: boolean | WebAppConsentOptions;
+
+  /**
+   * Optional: Queue analytics events while offline and send them in order
+   * once back online. The queue persists through the storage service, so
+   * events survive reloads. Pass `true` for the defaults.
+   */
+  analyticsQueue?: boolean | AnalyticsQueueOptions;
+
+  /**
+   * Optional: Log a `page_view` on every History API navigation, with
+   * dynamic path segments normalized. Pass `true` for the defaults.
+   */
+  pageViews?: boolean | PageViewTrackerOptions;
+
   /** RevenueCat configuration - if provided, enables RevenueCat */
   revenueCatConfig?: RevenueCatConfig;
 
-  /** Optional: Initialize i18n (app-specific, pass your initializeI18n function) */
-  initializeI18n?: () => void;
+  /**
+   * Optional: Initialize i18n (app-specific, pass your initializeI18n function).
+   * Return a translator to resolve info banners shown with `translate: true`.
+   */
+  initializeI18n?: () => void | InfoTranslator;
 
   /** Optional: Register service worker. Pass `true` to use the shared implementation, or a function for custom behavior. */
   registerServiceWorker?: boolean | (() => void);
 
   /** Optional: Initialize web vitals (app-specific, pass your function) */
   initWebVitals?: () => void;
+
+  /**
+   * Optional: Extra initialization steps, such as auth, feature flags or API
+   * clients. They run alongside the built-in steps in dependency order; a
+   * step named like a built-in one replaces it.
+   */
+  steps?: WebAppStep[];
+
+  /**
+   * Optional: Keep initializing when a step fails, unless the step is marked
+   * `critical`. Failed steps and the steps depending on them show up in the
+   * report, so the app can start in a degraded mode.
+   *
+   * @default false
+   */
+  continueOnError?: boolean;
+
+  /**
+   * Optional: Receives the initialization report (per-step status, timing
+   * and errors) once initialization finishes or fails
+   */
+  onReport?: (report: WebAppInitReport) => void;
+}
+
+/** Report of the first initialization, shared by repeated calls. */
+let initialization: Promise<WebAppInitReport> | null = null;
+
+/** Aborted by teardownWebApp() to stop work still in flight. */
+let teardownController = new AbortController();
+
+/** Whether the `serviceWorker` step started the shared update checks. */
+let usesSharedServiceWorker = false;
+
+/**
+ * Built-in initialization steps, in their default order:
+ * 1. `storage` -- Storage service
+ * 2. `consent` -- Consent manager with the choices saved in
+ *    `localStorage` (if `consent` is set)
+ * 3. `firebase` -- Firebase DI service (analytics, remote config, etc.);
+ *    with consent, analytics and messaging stay off until granted
+ * 4. `analytics` -- Firebase Analytics singleton (after `firebase`); with
+ *    consent, a stand-in queueing events until `analytics` is granted; with
+ *    `analyticsQueue`, events logged offline after consent wait in a
+ *    persisted queue (also after `storage`)
+ * 5. `network` -- Network service
+ * 6. `info` -- Info service; flash banners persist through the storage
+ *    service (after `storage`)
+ * 7. `revenueCat` -- Subscription/RevenueCat (if config provided; lazy when
+ *    `revenueCatConfig.lazy` is set or with consent, where it waits for
+ *    `subscriptions`; with `revenueCatConfig.onDemand` it only registers the
+ *    config for loadRevenueCat(); never critical)
+ * 8. `i18n` -- i18n (if provided; a returned translator is used for info
+ *    banners)
+ * 9. `serviceWorker` -- Service worker registration (if enabled)
+ * 10. `webVitals` -- Performance monitoring (if provided)
+ * 11. `pageViews` -- Automatic page-view tracking (if `pageViews` is set;
+ *     after `analytics`)
+ *
+ * @param options - Options the steps read their configuration from
+ */
+export function createDefaultWebAppSteps(
+  options: WebAppInitOptions
+): WebAppStep[] {
+  const {
+    firebaseConfig,
+    firebaseInitOptions,
+    revenueCatConfig,
+    initializeI18n,
+    registerServiceWorker,
+    initWebVitals,
+  } = options;
+  const consent = options.consent === true ? {} : options.consent || null;
+  const afterConsent = consent ? ['consent'] : [];
+  const consentOf = ({ results }: WebAppStepContext) =>
+    results.get('consent') as ConsentManager | undefined;
+  const analyticsQueue =
+    options.analyticsQueue === true ? {} : options.analyticsQueue || null;
+  const pageViews = options.pageViews === true ? {} : options.pageViews || null;
+
+  const createAnalytics = (
+    manager: ConsentManager | undefined,
+    initialize: () => FirebaseAnalyticsService,
+    onRevoke?: () => void
+  ) => {
+    if (!manager) {
+      return initialize();
+    }
+    const gateOptions: ConsentGatedAnalyticsOptions = {
+      signal: teardownController.signal,
+      onRevoke: () => {
+        onRevoke?.();
+        resetAnalyticsService();
+      },
+    };
+    if (consent?.maxQueuedEvents != null) {
+      gateOptions.maxQueuedEvents = consent.maxQueuedEvents;
+    }
+    return createConsentGatedAnalytics(manager, initialize, gateOptions);
+  };
+
+  return [
+    {
+      name: 'storage',
+      run: () => initializeStorageService(),
+    },
+    {
+      name: 'consent',
+      enabled: consent != null,
+      run: async ({ signal }) => {
+        const manager = consent?.manager ?? new ConsentManager(consent ?? {});
+        await manager.load();
+        // Torn down while loading, so leave the reset singleton alone
+        if (!signal.aborted) {
+          initializeConsentManager(manager);
+        }
+        return manager;
+      },
+    },
+    {
+      name: 'firebase',
+      dependsOn: afterConsent,
+      run: (context) => {
+        const manager = consentOf(context);
+        if (!manager) {
+          initializeFirebaseService(firebaseConfig, firebaseInitOptions);
+          return;
+        }
+        const { measurementId } = firebaseConfig;
+        setAnalyticsCollectionEnabled(
+          measurementId,
+          manager.isGranted('analytics')
+        );
+        initializeFirebaseService(
+          firebaseConfig,
+          withConsent(firebaseInitOptions, manager)
+        );
+        // Firebase reads these flags at startup, so restart it when they change
+        const signal = teardownController.signal;
+        const unsubscribe = manager.subscribe((choices, previous) => {
+          if (choices.analytics !== previous.analytics) {
+            setAnalyticsCollectionEnabled(measurementId, choices.analytics);
+          }
+          if (previous.messaging && !choices.messaging) {
+            // Stop push to this browser before messaging is switched off
+            void getFirebaseService().messaging.deleteToken();
+          }
+          if (
+            choices.analytics !== previous.analytics ||
+            choices.messaging !== previous.messaging
+          ) {
+            resetFirebaseService();
+            initializeFirebaseService(
+              firebaseConfig,
+              withConsent(firebaseInitOptions, manager)
+            );
+          }
+        });
+        signal.addEventListener('abort', unsubscribe, { once: true });
+      },
+    },
+    {
+      name: 'analytics',
+      dependsOn: analyticsQueue ? ['firebase', 'storage'] : ['firebase'],
+      run: async (context) => {
+        const manager = consentOf(context);
+        if (!analyticsQueue) {
+          return createAnalytics(manager, () => initializeFirebaseAnalytics());
+        }
+        const queue = new AnalyticsEventQueue({
+          storage: getStorageService(),
+          ...analyticsQueue,
+        });
+        await queue.load();
+        if (context.signal.aborted) {
+          // Torn down while loading; the run no longer wants a service
+          return undefined;
+        }
+        // Behind the consent gate, so nothing is queued without consent
+        let queued: AnalyticsService | null = null;
+        const initialize = () =>
+          initializeFirebaseAnalytics(() => {
+            queued ??= createQueuedAnalytics(
+              queue,
+              () => getFirebaseService().analytics,
+              { signal: teardownController.signal }
+            );
+            return queued;
+          });
+        return createAnalytics(manager, initialize, () => queue.clear());
+      },
+    },
+    {
+      name: 'network',
+      // Online/offline status detection. For authenticated API calls, apps should use
+      // FirebaseAuthNetworkService directly from @sudobility/auth_lib, which provides
+      // automatic token refresh on 401 responses.
+      run: () => initializeNetworkService(),
+    },
+    {
+      name: 'info',
+      dependsOn: ['storage'],
+      run: () =>
+        initializeInfoService(
+          createWebInfoService({ flashStorage: getStorageService() })
+        ),
+    },
+    {
+      name: 'revenueCat',
+      enabled: revenueCatConfig != null,
+      dependsOn: afterConsent,
+      // With consent it may wait for the user indefinitely
+      lazy: (revenueCatConfig?.lazy ?? false) || consent != null,
+      // Failures are reported through revenueCatConfig.onError
+      critical: false,
+      run: async (context) => {
+        if (!revenueCatConfig) {
+          return;
+        }
+        const signal = teardownController.signal;
+        const manager = consentOf(context);
+        const start = (): Promise<void> => {
+          const consented = manager?.whenGranted('subscriptions', signal);
+          if (!revenueCatConfig.onDemand) {
+            return startRevenueCat(revenueCatConfig, signal, consented);
+          }
+          // A deferred run may never start, leaving a teardown rejection unread
+          consented?.catch(() => {});
+          deferRevenueCat(revenueCatConfig, signal, consented);
+          return Promise.resolve();
+        };
+        if (manager) {
+          // Revoking logs the user out; the next grant starts RevenueCat again
+          const unsubscribe = manager.subscribe((choices, previous) => {
+            if (previous.subscriptions && !choices.subscriptions) {
+              void suspendRevenueCat();
+              void start();
+            }
+          });
+          signal.addEventListener('abort', unsubscribe, { once: true });
+        }
+        try {
+          await start();
+        } catch (error) {
+          // Torn down while waiting for consent
+          if (!signal.aborted) {
+            throw error;
+          }
+        }
+      },
+    },
+    {
+      name: 'i18n',
+      enabled: initializeI18n != null,
+      run: () => {
+        const translator = initializeI18n?.();
+        if (translator) {
+          setInfoTranslator(translator);
+        }
+      },
+    },
+    {
+      name: 'serviceWorker',
+      enabled: registerServiceWorker != null && registerServiceWorker !== false,
+      run: async () => {
+        if (typeof registerServiceWorker === 'function') {
+          registerServiceWorker();
+          return;
+        }
+        const { registerServiceWorker: register } =
+          await import('../sw/register.js');
+        register();
+        usesSharedServiceWorker = true;
+      },
+    },
+    {
+      name: 'webVitals',
+      enabled: initWebVitals != null,
+      run: () => initWebVitals?.(),
+    },
+    {
+      name: 'pageViews',
+      enabled: pageViews != null,
+      dependsOn: ['analytics'],
+      run: ({ results }) => {
+        const stop = trackPageViews(
+          results.get('analytics') as FirebaseAnalyticsService,
+          pageViews ?? {}
+        );
+        teardownController.signal.addEventListener('abort', stop, {
+          once: true,
+        });
+      },
+    },
+  ];
 }
 
 /**
  * Initialize a web application with all required DI services.
  *
- * This function sets up services in the correct order:
- * 1. Storage service
- * 2. Firebase DI service (analytics, remote config, etc.)
- * 3. Firebase Analytics singleton
- * 4. Network service
- * 5. Info service
- * 6. Subscription/RevenueCat (if config provided)
- * 7. i18n (if provided)
- * 8. Performance monitoring (if provided)
+ * Runs the built-in steps (see {@link createDefaultWebAppSteps}) plus any
+ * `steps` from the options. Each step starts once its dependencies finish,
+ * so independent steps run in parallel. Resolves when every non-lazy step
+ * is done. Calling it again before {@link teardownWebApp} runs nothing and
+ * resolves with the same analytics service.
  *
  * Note: Firebase Auth is NOT initialized here. Apps using Firebase Auth should
  * call initializeFirebaseAuth() from @sudobility/auth_lib separately, or use
@@ -114,138 +445,140 @@ export interface WebAppInitOptions {
  *
  * @param options - Configuration options
  * @returns The initialized analytics service
+ * @throws When there is no analytics service, e.g. because a step failed
+ * with `continueOnError`. Use {@link initializeWebAppWithReport} to start
+ * without one.
  */
 export async function initializeWebApp(
   options: WebAppInitOptions
 ): Promise<FirebaseAnalyticsService> {
-  const {
-    firebaseConfig,
-    firebaseInitOptions,
-    revenueCatConfig,
-    initializeI18n,
-    registerServiceWorker,
-    initWebVitals,
-  } = options;
-
-  // 1. Initialize storage service
-  initializeStorageService();
-
-  // 2. Initialize Firebase DI service (analytics, remote config, etc.)
-  initializeFirebaseService(firebaseConfig, firebaseInitOptions);
-
-  // 3. Initialize Firebase Analytics singleton
-  const analytics = initializeFirebaseAnalytics();
-
-  // 4. Initialize network service (for online/offline status detection)
-  // Note: For authenticated API calls, apps should use FirebaseAuthNetworkService directly
-  // from @sudobility/auth_lib, which provides automatic token refresh on 401 responses.
-  initializeNetworkService();
-
-  // 5. Initialize info service
-  initializeInfoService();
-
-  // 6. Initialize RevenueCat subscription (if config provided)
-  if (revenueCatConfig) {
-    const initRC = () => initializeRevenueCat(revenueCatConfig);
-    if (revenueCatConfig.lazy) {
-      // Fire-and-forget -- don't block app startup
-      void initRC();
-    } else {
-      await initRC();
-    }
+  const report = await initializeWebAppWithReport(options);
+  const analytics = report.results.get('analytics');
+  if (analytics == null) {
+    const status =
+      report.steps.find((step) => step.name === 'analytics')?.status ??
+      'missing';
+    throw new Error(
+      `Analytics was not initialized (step ${status}); use initializeWebAppWithReport() to continue without it`
+    );
   }
+  return analytics as FirebaseAnalyticsService;
+}
 
-  // 7. Initialize i18n (app-specific)
-  if (initializeI18n) {
-    initializeI18n();
+/**
+ * Same as {@link initializeWebApp}, resolving with the initialization report
+ * instead of the analytics service
+ *
+ * Only the first call runs the steps. Later calls, until
+ * {@link teardownWebApp}, resolve with the first call's report with
+ * `alreadyInitialized` set, without calling `onReport` again. A failed
+ * initialization can be retried.
+ *
+ * @example
+ * ```ts
+ * const report = await initializeWebAppWithReport({
+ *   firebaseConfig,
+ *   continueOnError: true,
+ * });
+ * if (!report.ok) {
+ *   showDegradedModeBanner(report.steps.filter((s) => s.status === 'failed'));
+ * }
+ * ```
+ *
+ * @param options - Configuration options
+ * @returns Per-step status, timing and errors
+ */
+export function initializeWebAppWithReport(
+  options: WebAppInitOptions
+): Promise<WebAppInitReport> {
+  const runOptions: WebAppStepRunOptions = {
+    signal: teardownController.signal,
+  };
+  if (options.continueOnError != null) {
+    runOptions.continueOnError = options.continueOnError;
   }
-
-  // 8. Initialize performance monitoring (app-specific)
-  if (registerServiceWorker === true) {
-    const { registerServiceWorker: register } =
-      await import('../sw/register.js');
-    register();
-  } else if (typeof registerServiceWorker === 'function') {
-    registerServiceWorker();
+  if (options.onReport) {
+    runOptions.onReport = options.onReport;
   }
-  if (initWebVitals) {
-    initWebVitals();
+  if (initialization) {
+    return initialization.then((report) => ({
+      ...report,
+      alreadyInitialized: true,
+    }));
   }
 
-  return analytics;
+  const running = runWebAppSteps(
+    mergeWebAppSteps(createDefaultWebAppSteps(options), options.steps ?? []),
+    options,
+    runOptions
+  );
+  initialization = running;
+  running.catch(() => {
+    if (initialization === running) {
+      initialization = null;
+    }
+  });
+  return running;
 }
 
-// ============================================================================
-// RevenueCat Initialization with Retry
-// ============================================================================
-
-/** Default number of retry attempts for RevenueCat initialization. */
-const RC_DEFAULT_MAX_RETRIES = 2;
-
-/** Base delay (ms) between retries -- doubled on each subsequent attempt. */
-const RC_RETRY_BASE_DELAY_MS = 1000;
-
 /**
- * Helper that delays execution for the given number of milliseconds.
+ * Undo {@link initializeWebApp} so it can run again (tests, HMR,
+ * micro-frontend remounts)
  *
- * @param ms - Milliseconds to wait.
+ * Resets the info, consent, analytics and Firebase singletons, stops the
+ * shared service worker's update checks and page-view tracking, and aborts
+ * RevenueCat retries still in flight, returning the RevenueCat status to
+ * `'idle'`. An initialization still running rejects and starts no further
+ * steps. Storage and network services are left alone; apps using custom
+ * steps should undo those themselves.
  */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export async function teardownWebApp(): Promise<void> {
+  teardownController.abort();
+  teardownController = new AbortController();
+  initialization = null;
+
+  resetInfoService();
+  setInfoTranslator(null);
+  resetConsentManager();
+  resetRevenueCat();
+  resetAnalyticsService();
+  resetFirebaseService();
+
+  if (usesSharedServiceWorker) {
+    usesSharedServiceWorker = false;
+    const { stopServiceWorkerUpdateChecks } = await import('../sw/register.js');
+    stopServiceWorkerUpdateChecks();
+  }
 }
 
 /**
- * Initialize RevenueCat with retry logic.
- *
- * Dynamically imports `@sudobility/subscription_lib`, configures the
- * RevenueCat adapter with the appropriate API key, and calls
- * `initializeSubscription`. If any step fails it retries up to
- * `config.maxRetries` times (default 2) with exponential back-off.
- * After all retries are exhausted it calls `config.onError` (if provided)
- * and logs the error.
- *
- * @param config - RevenueCat configuration including retry and error options.
+ * Firebase options with analytics and messaging switched off unless
+ * consented to. Granted categories keep the app's own setting.
  */
-async function initializeRevenueCat(config: RevenueCatConfig): Promise<void> {
-  const maxRetries = config.maxRetries ?? RC_DEFAULT_MAX_RETRIES;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      const subscriptionLib = await import('@sudobility/subscription_lib');
-      const isProduction = config.isProduction ?? true;
-      const apiKey = isProduction
-        ? config.apiKey
-        : config.apiKeySandbox || config.apiKey;
-
-      subscriptionLib.configureRevenueCatAdapter(apiKey);
-      subscriptionLib.initializeSubscription({
-        adapter: subscriptionLib.createRevenueCatAdapter(),
-        freeTier: config.freeTierPackage ?? {
-          packageId: 'free',
-          name: 'Free',
-        },
-      });
-
-      // Success -- exit early
-      return;
-    } catch (error) {
-      const isLastAttempt = attempt === maxRetries;
-      if (isLastAttempt) {
-        console.error(
-          `Failed to initialize RevenueCat after ${String(maxRetries + 1)} attempt(s). ` +
-            'Make sure @sudobility/subscription_lib is installed.',
-          error
-        );
-        config.onError?.(error);
-      } else {
-        const retryDelay = RC_RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
-        console.warn(
-          `RevenueCat initialization failed (attempt ${String(attempt + 1)}/${String(maxRetries + 1)}). ` +
-            `Retrying in ${String(retryDelay)}ms...`,
-          error
-        );
-        await delay(retryDelay);
-      }
-    }
-  }
+function withConsent(
+  firebaseInitOptions: WebAppInitOptions['firebaseInitOptions'],
+  consent: ConsentManager
+): WebAppInitOptions['firebaseInitOptions'] {
+  return {
+    ...firebaseInitOptions,
+    ...(consent.isGranted('analytics') ? {} : { enableAnalytics: false }),
+    ...(consent.isGranted('messaging') ? {} : { enableMessaging: false }),
+  };
+}
+
+/**
+ * Add app steps to the built-in ones. An app step named like a built-in
+ * step takes its place.
+ */
+function mergeWebAppSteps(
+  defaults: WebAppStep[],
+  steps: WebAppStep[]
+): WebAppStep[] {
+  const overrides = new Map(steps.map((step) => [step.name, step]));
+  return [
+    ...defaults.map((step) => overrides.get(step.name) ?? step),
+    ...steps.filter(
+      (step) => !defaults.some((builtIn) => builtIn.name === step.name)
+    ),
+  ];
 }
@@ -0,0 +1,620 @@
+/**
+ * @fileoverview RevenueCat initialization with retry and readiness status
+ * @description Configures `@sudobility/subscription_lib` with the RevenueCat
+ * adapter, retrying with jittered exponential back-off, and publishes the
+ * progress so the UI can tell whether subscriptions are ready.
+ */
+
+/**
+ * Emits the signed-in user's id (`null` when signed out), e.g. an auth
+ * store. Emitting the current id on subscribe is fine but not required.
+ */
+export interface RevenueCatIdentityObservable {
+  subscribe(listener: (userId: string | null) => void): () => void;
+}
+
+/**
+ * Where the RevenueCat app user id comes from: a getter read when
+ * initialization succeeds, or an observable followed for its lifetime
+ */
+export type RevenueCatIdentitySource =
+  | (() => string | null | undefined | Promise<string | null | undefined>)
+  | RevenueCatIdentityObservable;
+
+/**
+ * RevenueCat configuration
+ */
+export interface RevenueCatConfig {
+  /** RevenueCat API key (production) */
+  apiKey: string;
+
+  /** RevenueCat API key (sandbox) - optional, uses production key if not provided */
+  apiKeySandbox?: string;
+
+  /** Whether we're in production mode (affects which key to use) */
+  isProduction?: boolean;
+
+  /** Free tier package configuration */
+  freeTierPackage?: { packageId: string; name: string };
+
+  /**
+   * Signed-in user, so purchases are linked to the account instead of an
+   * anonymous RevenueCat id. Signing in logs the user in (RevenueCat aliases
+   * the anonymous purchases to them), signing out resets to anonymous.
+   * An observable is subscribed as soon as the config is registered, also
+   * with `onDemand` or while waiting for consent, so changes arriving
+   * before RevenueCat is ready are queued and applied once it is.
+   * With a getter, report later changes through
+   * {@link identifyRevenueCatUser}.
+   */
+  identity?: RevenueCatIdentitySource;
+
+  /**
+   * Maximum number of retry attempts when RevenueCat initialization fails.
+   * Each retry waits exponentially longer (up to 1 s, 2 s, 4 s, ...).
+   * Set to 0 to disable retries.
+   *
+   * @default 2
+   */
+  maxRetries?: number;
+
+  /**
+   * Fraction of each retry delay that is randomized, so clients that failed
+   * together do not retry together. `0` disables jitter.
+   *
+   * @default 0.5
+   */
+  retryJitter?: number;
+
+  /**
+   * Cancels initialization when aborted: no further attempts are made and
+   * the status becomes `'failed'` with the abort reason.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * When `true`, RevenueCat initialization is deferred and not awaited during
+   * `initializeWebApp()`. Instead, it runs in the background so it does not
+   * block app startup. Failures are still logged and retried.
+   *
+   * @default false
+   */
+  lazy?: boolean;
+
+  /**
+   * When `true`, RevenueCat is not initialized at startup. The first
+   * {@link loadRevenueCat} call (e.g. when the paywall opens) starts it, so
+   * users who never look at subscriptions never download
+   * `@sudobility/subscription_lib`.
+   *
+   * @default false
+   */
+  onDemand?: boolean;
+
+  /**
+   * With `onDemand`, start RevenueCat anyway once the browser is idle, so
+   * it is usually ready by the time it is needed
+   *
+   * @default false
+   */
+  prefetchWhenIdle?: boolean;
+
+  /**
+   * Optional callback invoked when RevenueCat initialization fails after all
+   * retry attempts. Receives the final error so the consumer can surface it
+   * in their UI or error-reporting pipeline.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Readiness of RevenueCat
+ *
+ * - `'idle'` -- not started (not configured, waiting for consent, or torn down)
+ * - `'loading'` -- first attempt in progress
+ * - `'retrying'` -- an attempt failed; waiting for or running a retry
+ * - `'ready'` -- subscriptions can be used
+ * - `'failed'` -- every attempt failed, or initialization was cancelled
+ */
+export type RevenueCatStatus =
+  | 'idle'
+  | 'loading'
+  | 'retrying'
+  | 'ready'
+  | 'failed';
+
+/**
+ * Snapshot of the RevenueCat readiness
+ */
+export interface RevenueCatState {
+  status: RevenueCatStatus;
+  /** Attempts made so far in the current run */
+  attempts: number;
+  /** Error of the last failed attempt */
+  error?: unknown;
+  /** When the next retry starts (epoch ms), while `'retrying'` */
+  nextRetryAt?: number;
+}
+
+/**
+ * Listener for RevenueCat state changes
+ */
+export type RevenueCatStateListener = (state: RevenueCatState) => void;
+
+/** Default number of retry attempts for RevenueCat initialization. */
+const RC_DEFAULT_MAX_RETRIES = 2;
+
+/** Base delay (ms) between retries -- doubled on each subsequent attempt. */
+const RC_RETRY_BASE_DELAY_MS = 1000;
+
+/** Default fraction of the retry delay that is randomized. */
+const RC_DEFAULT_RETRY_JITTER = 0.5;
+
+/** Idle-prefetch delay (ms) where `requestIdleCallback` is unavailable. */
+const RC_PREFETCH_FALLBACK_DELAY_MS = 2000;
+
+/** Longest wait (ms) for an idle period before prefetching anyway. */
+const RC_PREFETCH_IDLE_TIMEOUT_MS = 10_000;
+
+const IDLE_STATE: RevenueCatState = { status: 'idle', attempts: 0 };
+
+let state: RevenueCatState = IDLE_STATE;
+const listeners = new Set<RevenueCatStateListener>();
+
+/** What a run needs to start: config, teardown signal and consent gate. */
+interface RevenueCatRun {
+  config: RevenueCatConfig;
+  signal: AbortSignal | undefined;
+  /** Resolves once the run may start, e.g. after consent */
+  gate: Promise<void> | undefined;
+}
+
+/** The latest run, so retryRevenueCat() can restart or hurry it. */
+let current: (RevenueCatRun & { promise: Promise<void> }) | null = null;
+
+/** Run registered by deferRevenueCat(), started on first use. */
+let deferred: RevenueCatRun | null = null;
+
+/** Incremented by resetRevenueCat() so stale runs stop reporting. */
+let generation = 0;
+
+/** Ends the back-off wait of the running retry early. */
+let wakeUp: (() => void) | null = null;
+
+type SubscriptionLib = typeof import('@sudobility/subscription_lib');
+
+/** Library configured by the last successful run; identity waits for it. */
+let readyLib: SubscriptionLib | null = null;
+
+/** User RevenueCat should use; `undefined` until one is reported. */
+let wantedUserId: string | null | undefined;
+
+/** User RevenueCat uses; `null` while anonymous. */
+let appliedUserId: string | null = null;
+
+/** Identity updates, applied one at a time in order. */
+let identityQueue: Promise<void> = Promise.resolve();
+
+/** Stops following an observable identity source. */
+let stopIdentity: (() => void) | null = null;
+
+function setState(next: RevenueCatState): void {
+  state = next;
+  listeners.forEach((listener) => listener(state));
+}
+
+/**
+ * Get the current RevenueCat readiness
+ */
+export function getRevenueCatState(): RevenueCatState {
+  return state;
+}
+
+/**
+ * Subscribe to RevenueCat readiness changes. The listener is not called
+ * with the current state.
+ * @returns Unsubscribe function
+ */
+export function subscribeRevenueCat(
+  listener: RevenueCatStateListener
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Resolve once RevenueCat is ready
+ *
+ * Rejects with the final error when initialization fails; call
+ * {@link retryRevenueCat} and wait again to try once more.
+ */
+export function whenRevenueCatReady(): Promise<void> {
+  if (state.status === 'ready') {
+    return Promise.resolve();
+  }
+  if (state.status === 'failed') {
+    return Promise.reject(state.error);
+  }
+  return new Promise((resolve, reject) => {
+    const unsubscribe = subscribeRevenueCat((next) => {
+      if (next.status === 'ready') {
+        unsubscribe();
+        resolve();
+      } else if (next.status === 'failed') {
+        unsubscribe();
+        reject(next.error);
+      }
+    });
+  });
+}
+
+/**
+ * Try again after a failure, e.g. from a "Try again" button
+ *
+ * Starts a new run with the full number of retries when initialization
+ * failed, skips the back-off wait while a retry is pending, and otherwise
+ * returns the run in progress. Also starts an `onDemand` initialization.
+ *
+ * @throws Error if RevenueCat is not configured
+ */
+export function retryRevenueCat(): Promise<void> {
+  if (!current && deferred) {
+    return startDeferred(deferred);
+  }
+  if (!current) {
+    return Promise.reject(
+      new Error(
+        'RevenueCat is not configured. Pass revenueCatConfig to initializeWebApp().'
+      )
+    );
+  }
+  switch (state.status) {
+    case 'ready':
+      return Promise.resolve();
+    case 'retrying':
+      wakeUp?.();
+      return current.promise;
+    case 'idle':
+    case 'loading':
+      // Still waiting for its gate, or in progress
+      return current.promise;
+    default: {
+      const { config, signal, gate } = current;
+      // A cancelled run is restarted without the signal that cancelled it
+      const retryConfig = { ...config };
+      if (config.signal?.aborted) {
+        delete retryConfig.signal;
+      }
+      return startRevenueCat(retryConfig, signal, gate);
+    }
+  }
+}
+
+/**
+ * Forget the RevenueCat state (for testing and `teardownWebApp()`)
+ */
+export function resetRevenueCat(): void {
+  generation++;
+  current = null;
+  deferred = null;
+  wakeUp = null;
+  stopIdentity?.();
+  stopIdentity = null;
+  readyLib = null;
+  wantedUserId = undefined;
+  appliedUserId = null;
+  identityQueue = Promise.resolve();
+  setState(IDLE_STATE);
+}
+
+/**
+ * Stop using RevenueCat until it is started again, e.g. when the
+ * `subscriptions` consent is revoked
+ *
+ * Cancels the run in progress or waiting to start, logs the RevenueCat user
+ * out and resets the subscription service. The status returns to `'idle'`;
+ * the identity source is still followed so the user is linked again on the
+ * next start.
+ *
+ * @returns Resolves once the user is logged out
+ */
+export function suspendRevenueCat(): Promise<void> {
+  generation++;
+  current = null;
+  deferred = null;
+  wakeUp = null;
+  const lib = readyLib;
+  readyLib = null;
+  setState(IDLE_STATE);
+  identityQueue = identityQueue.then(async () => {
+    if (!lib) {
+      return;
+    }
+    try {
+      if (appliedUserId) {
+        await lib.clearRevenueCatUser();
+      }
+      lib.resetSubscription();
+    } catch (error) {
+      console.error('Failed to clear the RevenueCat user:', error);
+    }
+    appliedUserId = null;
+  });
+  return identityQueue;
+}
+
+/**
+ * Switch the RevenueCat user: log in `userId`, or reset to an anonymous
+ * user with `null`
+ *
+ * Before RevenueCat is ready the change is queued; only the latest one is
+ * applied. Failures are logged and leave the current user in place.
+ *
+ * @returns Resolves once the change is applied (or queued)
+ */
+export function identifyRevenueCatUser(userId: string | null): Promise<void> {
+  wantedUserId = userId;
+  return syncIdentity();
+}
+
+function syncIdentity(): Promise<void> {
+  identityQueue = identityQueue.then(async () => {
+    const lib = readyLib;
+    const userId = wantedUserId;
+    if (!lib || userId === undefined || userId === appliedUserId) {
+      return;
+    }
+    try {
+      if (userId) {
+        await lib.setRevenueCatUser(userId);
+      } else {
+        await lib.clearRevenueCatUser();
+      }
+      appliedUserId = userId;
+    } catch (error) {
+      console.error('Failed to update the RevenueCat user:', error);
+    }
+  });
+  return identityQueue;
+}
+
+/** Follow an observable identity source until resetRevenueCat(). */
+function watchIdentity(source: RevenueCatIdentitySource | undefined): void {
+  if (!source || typeof source === 'function' || stopIdentity) {
+    return;
+  }
+  stopIdentity = source.subscribe((userId) => {
+    void identifyRevenueCatUser(userId);
+  });
+}
+
+/** Read a getter identity source; errors count as signed out. */
+async function readIdentity(
+  source: RevenueCatIdentitySource | undefined
+): Promise<void> {
+  if (typeof source !== 'function') {
+    return;
+  }
+  try {
+    wantedUserId = (await source()) ?? null;
+  } catch (error) {
+    console.error('Failed to read the RevenueCat user:', error);
+  }
+}
+
+/**
+ * Get `@sudobility/subscription_lib` once RevenueCat is ready, starting an
+ * `onDemand` initialization on first use
+ *
+ * Concurrent calls share one initialization. After a failure the next call
+ * tries again. Rejects when initialization fails or is cancelled, through
+ * `config.signal` or `teardownWebApp()`.
+ *
+ * @example
+ * ```ts
+ * async function openPaywall() {
+ *   const subscriptions = await loadRevenueCat();
+ *   showOfferings(await subscriptions.getSubscriptionInstance().getOfferings());
+ * }
+ * ```
+ *
+ * @throws Error if RevenueCat is not configured
+ */
+export function loadRevenueCat(): Promise<SubscriptionLib> {
+  const running =
+    current && state.status !== 'failed' ? current.promise : retryRevenueCat();
+  return running.then(() => {
+    // A cancelled run resolves without configuring the library
+    if (state.status !== 'ready' || !readyLib) {
+      throw state.status === 'failed'
+        ? state.error
+        : new Error('RevenueCat initialization was cancelled.');
+    }
+    return readyLib;
+  });
+}
+
+/**
+ * Register an `onDemand` initialization, started by {@link loadRevenueCat}
+ * or, with `prefetchWhenIdle`, once the browser is idle
+ *
+ * @param config - RevenueCat configuration.
+ * @param signal - Stops further attempts when aborted, like `config.signal`.
+ * @param gate - Resolves once initialization may start, e.g. after consent.
+ */
+export function deferRevenueCat(
+  config: RevenueCatConfig,
+  signal?: AbortSignal,
+  gate?: Promise<void>
+): void {
+  const run: RevenueCatRun = { config, signal, gate };
+  deferred = run;
+  // Queue sign-ins that happen before the first use
+  watchIdentity(config.identity);
+  if (!config.prefetchWhenIdle) {
+    return;
+  }
+  const prefetch = () => {
+    if (deferred === run) {
+      void startDeferred(run).catch(() => {});
+    }
+  };
+  if (typeof window !== 'undefined' && 'requestIdleCallback' in window) {
+    window.requestIdleCallback(prefetch, {
+      timeout: RC_PREFETCH_IDLE_TIMEOUT_MS,
+    });
+  } else {
+    setTimeout(prefetch, RC_PREFETCH_FALLBACK_DELAY_MS);
+  }
+}
+
+function startDeferred(run: RevenueCatRun): Promise<void> {
+  deferred = null;
+  return startRevenueCat(run.config, run.signal, run.gate);
+}
+
+/**
+ * Initialize RevenueCat with retry logic.
+ *
+ * Dynamically imports `@sudobility/subscription_lib`, configures the
+ * RevenueCat adapter with the appropriate API key, and calls
+ * `initializeSubscription`. If any step fails it retries up to
+ * `config.maxRetries` times (default 2) with jittered exponential back-off.
+ * After all retries are exhausted it calls `config.onError` (if provided),
+ * logs the error and rethrows it so the step is reported as failed.
+ *
+ * @param config - RevenueCat configuration including retry and error options.
+ * @param signal - Stops further attempts when aborted, like `config.signal`.
+ * @param gate - Resolves once initialization may start, e.g. after consent.
+ */
+export function startRevenueCat(
+  config: RevenueCatConfig,
+  signal?: AbortSignal,
+  gate?: Promise<void>
+): Promise<void> {
+  watchIdentity(config.identity);
+  const promise = runRevenueCat(config, signal, gate, ++generation);
+  current = { config, signal, gate, promise };
+  // Callers that do not await the run still see failures through onError
+  promise.catch(() => {});
+  return promise;
+}
+
+async function runRevenueCat(
+  config: RevenueCatConfig,
+  signal: AbortSignal | undefined,
+  gate: Promise<void> | undefined,
+  run: number
+): Promise<void> {
+  await gate;
+  const maxRetries = config.maxRetries ?? RC_DEFAULT_MAX_RETRIES;
+  const jitter = Math.min(
+    Math.max(config.retryJitter ?? RC_DEFAULT_RETRY_JITTER, 0),
+    1
+  );
+  const isCurrent = () => run === generation;
+  const isAborted = () => signal?.aborted || config.signal?.aborted;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (isAborted() || !isCurrent()) {
+      if (isCurrent() && config.signal?.aborted) {
+        setState({
+          status: 'failed',
+          attempts: attempt,
+          error: config.signal.reason,
+        });
+      }
+      return;
+    }
+    setState({
+      status: attempt === 0 ? 'loading' : 'retrying',
+      attempts: attempt,
+    });
+    try {
+      const subscriptionLib = await import('@sudobility/subscription_lib');
+      const isProduction = config.isProduction ?? true;
+      const apiKey = isProduction
+        ? config.apiKey
+        : config.apiKeySandbox || config.apiKey;
+
+      subscriptionLib.configureRevenueCatAdapter(apiKey);
+      subscriptionLib.initializeSubscription({
+        adapter: subscriptionLib.createRevenueCatAdapter(),
+        freeTier: config.freeTierPackage ?? {
+          packageId: 'free',
+          name: 'Free',
+        },
+      });
+
+      // Success -- link the signed-in user, then exit early
+      if (isCurrent()) {
+        readyLib = subscriptionLib;
+        await readIdentity(config.identity);
+        await syncIdentity();
+      }
+      if (isCurrent()) {
+        setState({ status: 'ready', attempts: attempt + 1 });
+      }
+      return;
+    } catch (error) {
+      if (!isCurrent()) {
+        return;
+      }
+      const isLastAttempt = attempt === maxRetries;
+      if (isLastAttempt) {
+        console.error(
+          `Failed to initialize RevenueCat after ${String(maxRetries + 1)} attempt(s). ` +
+            'Make sure @sudobility/subscription_lib is installed.',
+          error
+        );
+        setState({ status: 'failed', attempts: attempt + 1, error });
+        config.onError?.(error);
+        throw error;
+      } else {
+        const backoff = RC_RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+        const retryDelay = Math.round(backoff * (1 - jitter * Math.random()));
+        console.warn(
+          `RevenueCat initialization failed (attempt ${String(attempt + 1)}/${String(maxRetries + 1)}). ` +
+            `Retrying in ${String(retryDelay)}ms...`,
+          error
+        );
+        setState({
+          status: 'retrying',
+          attempts: attempt + 1,
+          error,
+          nextRetryAt: Date.now() + retryDelay,
+        });
+        await delay(retryDelay, [signal, config.signal]);
+      }
+    }
+  }
+}
+
+/**
+ * Helper that delays execution for the given number of milliseconds.
+ *
+ * @param ms - Milliseconds to wait.
+ * @param signals - End the wait early when aborted; so does retryRevenueCat().
+ */
+function delay(
+  ms: number,
+  signals: (AbortSignal | undefined)[]
+): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      signals.forEach((signal) => signal?.removeEventListener('abort', done));
+      if (wakeUp === done) {
+        wakeUp = null;
+      }
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signals.forEach((signal) =>
+      signal?.addEventListener('abort', done, { once: true })
+    );
+    wakeUp = done;
+  });
+}
@@ -0,0 +1,377 @@
+/**
+ * @fileoverview Step graph behind initializeWebApp
+ * @description Each initialization step declares its dependencies; steps
+ * are run as soon as their dependencies finish, so independent steps run
+ * in parallel while dependent ones keep their order.
+ */
+
+import type { WebAppInitOptions } from './initialize.js';
+
+/**
+ * Context passed to every step
+ */
+export interface WebAppStepContext {
+  /** Options given to `initializeWebApp` */
+  options: WebAppInitOptions;
+  /** Values returned by the steps that already finished, by step name */
+  results: ReadonlyMap<string, unknown>;
+  /**
+   * Aborted when the run is cancelled; work finishing afterwards should not
+   * register anything
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * A single initialization step
+ *
+ * @example
+ * ```ts
+ * const authStep: WebAppStep = {
+ *   name: 'auth',
+ *   dependsOn: ['firebase'],
+ *   run: () => initializeFirebaseAuth(),
+ * };
+ * await initializeWebApp({ firebaseConfig, steps: [authStep] });
+ * ```
+ */
+export interface WebAppStep {
+  /** Unique name, referenced by `dependsOn` of other steps */
+  name: string;
+
+  /** Steps that must finish before this one starts */
+  dependsOn?: string[];
+
+  /**
+   * When `true`, `initializeWebApp` does not wait for the step. It still
+   * starts as soon as its dependencies finish.
+   *
+   * @default false
+   */
+  lazy?: boolean;
+
+  /**
+   * Whether the step runs at all. Steps depending on a disabled step are
+   * skipped too.
+   *
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * Whether a failure of this step fails the whole initialization. Defaults
+   * to `true`, or to `false` with `continueOnError`. Lazy steps are never
+   * critical.
+   */
+  critical?: boolean;
+
+  /** Does the work; the returned (or resolved) value lands in `results` */
+  run: (context: WebAppStepContext) => unknown;
+}
+
+/**
+ * Final state of a step in a {@link WebAppInitReport}
+ *
+ * - `'ok'` -- finished successfully
+ * - `'skipped'` -- disabled, or a dependency did not succeed
+ * - `'failed'` -- threw or rejected
+ * - `'deferred'` -- lazy (or interrupted) step still running or waiting
+ *   when initialization finished
+ */
+export type WebAppStepStatus = 'ok' | 'skipped' | 'failed' | 'deferred';
+
+/**
+ * Outcome of a single step
+ */
+export interface WebAppStepReport {
+  name: string;
+  status: WebAppStepStatus;
+  /** Run time (ms) of steps that finished, successfully or not */
+  durationMs?: number;
+  /** Error of a failed step */
+  error?: unknown;
+}
+
+/**
+ * Outcome of an initialization run
+ */
+export interface WebAppInitReport {
+  /** Whether no step failed */
+  ok: boolean;
+  /** Time from start until initialization finished (ms) */
+  durationMs: number;
+  /** Every step, in the order they were scheduled */
+  steps: WebAppStepReport[];
+  /** Values returned by the successful steps, by step name */
+  results: ReadonlyMap<string, unknown>;
+  /**
+   * Whether this report comes from an earlier initialization and no step
+   * ran this time
+   */
+  alreadyInitialized: boolean;
+}
+
+/**
+ * Options for {@link runWebAppSteps}
+ */
+export interface WebAppStepRunOptions {
+  /**
+   * Keep going when a step fails, unless it is marked `critical`. Steps
+   * depending on the failed one are skipped.
+   *
+   * @default false
+   */
+  continueOnError?: boolean;
+
+  /**
+   * Called with the report once initialization finishes, also when it
+   * fails, e.g. to send startup telemetry
+   */
+  onReport?: (report: WebAppInitReport) => void;
+
+  /**
+   * Cancels the run when aborted: no further steps start, steps that have
+   * not started are reported as `'skipped'`, running ones as `'deferred'`,
+   * and the run rejects with the abort reason
+   */
+  signal?: AbortSignal;
+}
+
+/** Progress of a step while the graph runs. */
+type StepStatus = 'pending' | 'running' | 'ok' | 'failed' | 'skipped';
+
+/** Bookkeeping for a single step while the graph runs. */
+interface StepRecord {
+  status: StepStatus;
+  startedAt?: number;
+  durationMs?: number;
+  error?: unknown;
+}
+
+/**
+ * Order steps so every step comes after its dependencies, keeping the
+ * declaration order wherever the dependencies allow it
+ *
+ * @throws Error on duplicate names, unknown dependencies or cycles
+ */
+export function sortWebAppSteps(steps: WebAppStep[]): WebAppStep[] {
+  const names = new Set<string>();
+  for (const step of steps) {
+    if (names.has(step.name)) {
+      throw new Error(`Duplicate initialization step "${step.name}"`);
+    }
+    names.add(step.name);
+  }
+  for (const step of steps) {
+    for (const dependency of step.dependsOn ?? []) {
+      if (!names.has(dependency)) {
+        throw new Error(
+          `Initialization step "${step.name}" depends on unknown step "${dependency}"`
+        );
+      }
+    }
+  }
+
+  const sorted: WebAppStep[] = [];
+  const placed = new Set<string>();
+  let remaining = steps;
+  while (remaining.length > 0) {
+    const next = remaining.find((step) =>
+      (step.dependsOn ?? []).every((dependency) => placed.has(dependency))
+    );
+    if (!next) {
+      const cycle = remaining.map((step) => `"${step.name}"`).join(', ');
+      throw new Error(`Initialization steps have a dependency cycle: ${cycle}`);
+    }
+    sorted.push(next);
+    placed.add(next.name);
+    remaining = remaining.filter((step) => step !== next);
+  }
+  return sorted;
+}
+
+/**
+ * Run steps in dependency order, starting each one as soon as its
+ * dependencies have finished
+ *
+ * Synchronous steps complete immediately, so a chain of synchronous steps
+ * runs in declaration order. Resolves once every non-lazy step has
+ * finished; lazy steps keep running in the background and their failures
+ * are logged.
+ *
+ * @returns Report of the run, see {@link WebAppInitReport}
+ * @throws The error of the first critical step that fails, or the abort
+ * reason of `signal`
+ */
+export function runWebAppSteps(
+  steps: WebAppStep[],
+  options: WebAppInitOptions,
+  {
+    continueOnError = false,
+    onReport,
+    signal = new AbortController().signal,
+  }: WebAppStepRunOptions = {}
+): Promise<WebAppInitReport> {
+  const ordered = sortWebAppSteps(steps);
+  const records = new Map<string, StepRecord>(
+    ordered.map((step) => [step.name, { status: 'pending' }])
+  );
+  const results = new Map<string, unknown>();
+  const context: WebAppStepContext = { options, results, signal };
+  const startedAt = Date.now();
+
+  const statusOf = (name: string) => records.get(name)?.status;
+  const isDone = (name: string) => {
+    const status = statusOf(name);
+    return status === 'ok' || status === 'failed' || status === 'skipped';
+  };
+
+  const buildReport = (): WebAppInitReport => {
+    const stepReports = ordered.map((step): WebAppStepReport => {
+      const record = records.get(step.name) ?? { status: 'pending' };
+      const report: WebAppStepReport = {
+        name: step.name,
+        status:
+          record.status === 'pending' || record.status === 'running'
+            ? 'deferred'
+            : record.status,
+      };
+      if (record.durationMs != null) {
+        report.durationMs = record.durationMs;
+      }
+      if (record.status === 'failed') {
+        report.error = record.error;
+      }
+      return report;
+    });
+    return {
+      ok: stepReports.every((step) => step.status !== 'failed'),
+      durationMs: Date.now() - startedAt,
+      steps: stepReports,
+      results,
+      alreadyInitialized: false,
+    };
+  };
+
+  return new Promise((resolve, reject) => {
+    let isSettled = false;
+    // Set once a critical step fails; no further steps are started
+    let isAborted = false;
+
+    const finish = (step: WebAppStep, status: StepStatus, error?: unknown) => {
+      const record = records.get(step.name);
+      if (record) {
+        record.status = status;
+        record.durationMs = Date.now() - (record.startedAt ?? startedAt);
+        if (status === 'failed') {
+          record.error = error;
+        }
+      }
+    };
+
+    const cancel = () => {
+      if (isSettled) {
+        return;
+      }
+      isSettled = true;
+      isAborted = true;
+      records.forEach((record) => {
+        if (record.status === 'pending') {
+          record.status = 'skipped';
+        }
+      });
+      onReport?.(buildReport());
+      reject(signal.reason);
+    };
+
+    const fail = (step: WebAppStep, error: unknown) => {
+      finish(step, 'failed', error);
+      const isCritical = !step.lazy && (step.critical ?? !continueOnError);
+      if (isCritical && !isSettled) {
+        isSettled = true;
+        isAborted = true;
+        signal.removeEventListener('abort', cancel);
+        onReport?.(buildReport());
+        reject(error);
+        return;
+      }
+      if (isSettled) {
+        console.error(`Initialization step "${step.name}" failed:`, error);
+      }
+      schedule();
+    };
+
+    const succeed = (step: WebAppStep, value: unknown) => {
+      finish(step, 'ok');
+      results.set(step.name, value);
+    };
+
+    function schedule(): void {
+      if (isAborted) {
+        return;
+      }
+      for (let index = 0; index < ordered.length; index++) {
+        const step = ordered[index];
+        const record = step && records.get(step.name);
+        if (!step || record?.status !== 'pending') {
+          continue;
+        }
+        const dependencies = step.dependsOn ?? [];
+        if (!dependencies.every(isDone)) {
+          continue;
+        }
+
+        if (
+          step.enabled === false ||
+          dependencies.some((name) => statusOf(name) !== 'ok')
+        ) {
+          record.status = 'skipped';
+          index = -1;
+          continue;
+        }
+
+        record.status = 'running';
+        record.startedAt = Date.now();
+        let value: unknown;
+        try {
+          value = step.run(context);
+        } catch (error) {
+          fail(step, error);
+          return;
+        }
+
+        if (value instanceof Promise) {
+          value.then(
+            (resolved: unknown) => {
+              succeed(step, resolved);
+              schedule();
+            },
+            (error: unknown) => fail(step, error)
+          );
+        } else {
+          succeed(step, value);
+          // Rescan so steps unblocked by this one keep declaration order
+          index = -1;
+        }
+      }
+
+      if (
+        !isSettled &&
+        ordered.every((step) => step.lazy || isDone(step.name))
+      ) {
+        isSettled = true;
+        signal.removeEventListener('abort', cancel);
+        const report = buildReport();
+        onReport?.(report);
+        resolve(report);
+      }
+    }
+
+    if (signal.aborted) {
+      cancel();
+      return;
+    }
+    signal.addEventListener('abort', cancel, { once: true });
+    schedule();
+  });
+}
@@ -0,0 +1,32 @@
+/**
+ * React hook over the RevenueCat readiness
+ */
+
+import { useSyncExternalStore } from 'react';
+import {
+  getRevenueCatState,
+  subscribeRevenueCat,
+  type RevenueCatState,
+} from './revenuecat.js';
+
+/**
+ * Current RevenueCat readiness, re-rendering on every change
+ *
+ * @example
+ * ```tsx
+ * function Paywall() {
+ *   const { status } = useRevenueCatStatus();
+ *   if (status === 'failed') {
+ *     return <button onClick={() => void retryRevenueCat()}>Try again</button>;
+ *   }
+ *   return status === 'ready' ? <Offerings /> : <Spinner />;
+ * }
+ * ```
+ */
+export function useRevenueCatStatus(): RevenueCatState {
+  return useSyncExternalStore(
+    subscribeRevenueCat,
+    getRevenueCatState,
+    getRevenueCatState
+  );
+}
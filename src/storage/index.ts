@@ -0,0 +1,5 @@
+/**
+ * Storage module exports
+ */
+
+export { type KeyValueStorage } from './storage.js';
@@ -0,0 +1,19 @@
+/**
+ * Key/value storage shared by the persisted web services
+ *
+ * Consent choices, flash banners and the offline analytics queue are all
+ * saved through this shape, so `window.localStorage`,
+ * `window.sessionStorage` and the DI storage service can back any of them.
+ */
+
+/**
+ * Key/value store such as the DI storage service or `window.sessionStorage`.
+ * Methods may be synchronous or return promises.
+ */
+export interface KeyValueStorage {
+  getItem(
+    key: string
+  ): string | null | undefined | Promise<string | null | undefined>;
+  setItem(key: string, value: string): unknown;
+  removeItem(key: string): unknown;
+}
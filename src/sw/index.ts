@@ -9,10 +9,12 @@
 export {
   registerServiceWorker,
   unregisterServiceWorker,
+  stopServiceWorkerUpdateChecks,
   type ServiceWorkerState,
   type RegisterServiceWorkerOptions,
 } from './register.js';
 export {
   serviceWorkerPlugin,
+  injectWorkerEnv,
   type ServiceWorkerPluginOptions,
 } from './vite-plugin-service-worker.js';
@@ -91,6 +91,9 @@ const RETRY_BASE_DELAY_MS = 1000;
 /** Interval (ms) between automatic update checks (24 hours). */
 const UPDATE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
 
+/** Timer of the running update checks, if any. */
+let updateCheckInterval: ReturnType<typeof setInterval> | null = null;
+
 /**
  * Returns `true` when the current environment is production.
  *
@@ -199,7 +202,8 @@ async function attemptRegistration(
     onStateChange?.('registered');
 
     // Check for updates every 24 hours
-    setInterval(() => {
+    stopServiceWorkerUpdateChecks();
+    updateCheckInterval = setInterval(() => {
       registration.update();
     }, UPDATE_CHECK_INTERVAL_MS);
 
@@ -239,6 +243,18 @@ async function attemptRegistration(
   }
 }
 
+/**
+ * Stop the automatic 24-hour update checks started by
+ * {@link registerServiceWorker}. Used by `teardownWebApp()`; the worker
+ * itself stays registered.
+ */
+export function stopServiceWorkerUpdateChecks(): void {
+  if (updateCheckInterval !== null) {
+    clearInterval(updateCheckInterval);
+    updateCheckInterval = null;
+  }
+}
+
 /**
  * Unregister the active service worker.
  *
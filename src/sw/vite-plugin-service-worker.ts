@@ -27,6 +27,11 @@
  * };
  * ```
  *
+ * When Firebase Messaging is included, the worker's `process.env.VITE_*`
+ * references are replaced with the values {@link readWebAppEnv} resolves
+ * from Vite's env (or the `env` option), so the worker uses the same
+ * Firebase project as the app.
+ *
  * @example
  * ```ts
  * // vite.config.ts  --  include Firebase Cloud Messaging worker
@@ -43,6 +48,11 @@
 import { readFileSync } from 'fs';
 import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import {
+  readWebAppEnv,
+  type WebAppEnv,
+  type WebAppEnvReadOptions,
+} from '../config/env.js';
 
 /**
  * Configuration options for the service worker Vite plugin.
@@ -56,6 +66,37 @@ export interface ServiceWorkerPluginOptions {
    * @default false
    */
   includeFirebaseMessaging?: boolean;
+
+  /**
+   * Variables injected into `firebase-messaging-sw.js`. Defaults to the env
+   * Vite loaded for the current mode, which is what `import.meta.env` holds
+   * in the app.
+   */
+  env?: WebAppEnv;
+
+  /** Environment override, see {@link readWebAppEnv} */
+  environment?: WebAppEnvReadOptions['environment'];
+}
+
+/** `process.env.VITE_*` references in the messaging worker. */
+const PROCESS_ENV_PATTERN = /process\.env\.(VITE_[A-Z0-9_]*[A-Z0-9])/g;
+
+/**
+ * Replace the `process.env.VITE_*` references of a worker source with the
+ * resolved values; unset variables become `undefined`
+ *
+ * @throws Error if a variable the worker needs is missing
+ */
+export function injectWorkerEnv(
+  source: string,
+  env: WebAppEnv,
+  options: WebAppEnvReadOptions = {}
+): string {
+  const { values } = readWebAppEnv(env, options);
+  return source.replace(PROCESS_ENV_PATTERN, (_match, key: string) => {
+    const value = values[key];
+    return value == null ? 'undefined' : JSON.stringify(value);
+  });
 }
 
 /**
@@ -81,16 +122,35 @@ export interface ServiceWorkerPluginOptions {
  * ```
  */
 export function serviceWorkerPlugin(options: ServiceWorkerPluginOptions = {}) {
-  const { includeFirebaseMessaging = false } = options;
+  const { includeFirebaseMessaging = false, environment } = options;
+  let env = options.env;
 
   // Resolve paths to the co-located dist/sw/ files
   const swDir = dirname(fileURLToPath(import.meta.url));
   const swPath = resolve(swDir, 'sw.js');
   const firebaseSwPath = resolve(swDir, 'firebase-messaging-sw.js');
 
+  const readFirebaseWorker = () => {
+    const source = readFileSync(firebaseSwPath, 'utf-8');
+    if (!env) {
+      return source;
+    }
+    return injectWorkerEnv(source, env, environment ? { environment } : {});
+  };
+
   return {
     name: 'sudobility-service-worker' as const,
 
+    /**
+     * Picks up the env Vite loaded for the current mode, unless `env` was
+     * passed explicitly.
+     *
+     * @param config - The resolved Vite config.
+     */
+    configResolved(config: { env?: WebAppEnv }) {
+      env ??= config.env;
+    },
+
     /**
      * Adds Connect middleware that serves service worker files during
      * development so they can be tested with the Vite dev server.
@@ -118,7 +178,7 @@ export function serviceWorkerPlugin(options: ServiceWorkerPluginOptions = {}) {
             req.url === '/firebase-messaging-sw.js'
           ) {
             res.setHeader('Content-Type', 'application/javascript');
-            res.end(readFileSync(firebaseSwPath, 'utf-8'));
+            res.end(readFirebaseWorker());
             return;
           }
           next();
@@ -157,7 +217,7 @@ export function serviceWorkerPlugin(options: ServiceWorkerPluginOptions = {}) {
         ).emitFile({
           type: 'asset',
           fileName: 'firebase-messaging-sw.js',
-          source: readFileSync(firebaseSwPath, 'utf-8'),
+          source: readFirebaseWorker(),
         });
       }
     },
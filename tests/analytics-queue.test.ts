@@ -0,0 +1,253 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AnalyticsService } from '@sudobility/di/web';
+import {
+  AnalyticsEventQueue,
+  createQueuedAnalytics,
+} from '../src/analytics/index.js';
+import { memoryStorage } from './helpers/storage.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Names of the queued events. */
+function names(queue: AnalyticsEventQueue): string[] {
+  return queue.getEvents().map((event) => event.name);
+}
+
+/** Analytics double recording logged events. */
+function analyticsService() {
+  const logEvent = vi.fn();
+  const service: AnalyticsService = {
+    logEvent,
+    setUserProperties: vi.fn(),
+    setUserId: vi.fn(),
+    isSupported: () => true,
+  };
+  return { service, logEvent };
+}
+
+// ---------------------------------------------------------------------------
+// AnalyticsEventQueue
+// ---------------------------------------------------------------------------
+
+describe('AnalyticsEventQueue', () => {
+  it('persists queued events and restores them ahead of new ones', async () => {
+    const { data, storage } = memoryStorage();
+    const first = new AnalyticsEventQueue({ storage });
+    await first.load();
+    first.enqueue('a', { id: 1 });
+    await Promise.resolve();
+
+    const second = new AnalyticsEventQueue({ storage });
+    second.enqueue('b');
+    await second.load();
+
+    expect(names(second)).toEqual(['a', 'b']);
+    expect(second.getEvents()[0]?.params).toEqual({ id: 1 });
+    expect(data.has('sudobility.analytics.queue')).toBe(true);
+  });
+
+  it('ignores a malformed persisted queue', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { storage } = memoryStorage({ 'sudobility.analytics.queue': '[' });
+    const queue = new AnalyticsEventQueue({ storage });
+
+    await queue.load();
+
+    expect(queue.size).toBe(0);
+    warn.mockRestore();
+  });
+
+  it('drops the oldest events when full by default', () => {
+    const queue = new AnalyticsEventQueue({ maxEvents: 2 });
+
+    queue.enqueue('a');
+    queue.enqueue('b');
+    queue.enqueue('c');
+
+    expect(names(queue)).toEqual(['b', 'c']);
+  });
+
+  it('can drop the newest events instead', () => {
+    const queue = new AnalyticsEventQueue({
+      maxEvents: 2,
+      overflow: 'drop-newest',
+    });
+
+    queue.enqueue('a');
+    queue.enqueue('b');
+    queue.enqueue('c');
+
+    expect(names(queue)).toEqual(['a', 'b']);
+  });
+
+  it('merges consecutive events through the merge policy', () => {
+    const queue = new AnalyticsEventQueue({
+      merge: (last, next) =>
+        last.name === next.name
+          ? {
+              ...last,
+              params: { count: Number(last.params?.count ?? 1) + 1 },
+            }
+          : null,
+    });
+
+    queue.enqueue('scroll');
+    queue.enqueue('scroll');
+    queue.enqueue('click');
+
+    expect(queue.getEvents().map(({ name, params }) => [name, params])).toEqual(
+      [
+        ['scroll', { count: 2 }],
+        ['click', undefined],
+      ]
+    );
+  });
+
+  it('flushes in order and keeps events after a failure', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { data, storage } = memoryStorage();
+    const queue = new AnalyticsEventQueue({ storage });
+    await queue.load();
+    queue.enqueue('a');
+    queue.enqueue('b');
+    queue.enqueue('c');
+    const sent: string[] = [];
+
+    const count = await queue.flush((name) => {
+      if (name === 'c') {
+        throw new Error('offline again');
+      }
+      sent.push(name);
+    });
+
+    expect(count).toBe(2);
+    expect(sent).toEqual(['a', 'b']);
+    expect(names(queue)).toEqual(['c']);
+
+    await queue.flush(() => {});
+    await Promise.resolve();
+
+    expect(queue.size).toBe(0);
+    expect(data.has('sudobility.analytics.queue')).toBe(false);
+    warn.mockRestore();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createQueuedAnalytics
+// ---------------------------------------------------------------------------
+
+describe('createQueuedAnalytics', () => {
+  it('sends events directly while online', () => {
+    const queue = new AnalyticsEventQueue();
+    const { service, logEvent } = analyticsService();
+    const analytics = createQueuedAnalytics(queue, () => service, {
+      isOnline: () => true,
+    });
+
+    analytics.logEvent('share', { method: 'link' });
+
+    expect(logEvent).toHaveBeenCalledWith('share', { method: 'link' });
+    expect(queue.size).toBe(0);
+  });
+
+  it('queues events while offline and flushes them when back online', async () => {
+    let online = false;
+    const controller = new AbortController();
+    const queue = new AnalyticsEventQueue();
+    const { service, logEvent } = analyticsService();
+    const analytics = createQueuedAnalytics(queue, () => service, {
+      isOnline: () => online,
+      signal: controller.signal,
+    });
+
+    analytics.logEvent('first');
+    analytics.logEvent('second');
+    expect(logEvent).not.toHaveBeenCalled();
+
+    online = true;
+    window.dispatchEvent(new Event('online'));
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(logEvent.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+      'first',
+      'second',
+    ]);
+    controller.abort();
+  });
+
+  it('queues events until the service exists', async () => {
+    let current: AnalyticsService | null = null;
+    const queue = new AnalyticsEventQueue();
+    const { service, logEvent } = analyticsService();
+    const analytics = createQueuedAnalytics(queue, () => current, {
+      isOnline: () => true,
+    });
+
+    analytics.logEvent('early');
+    current = service;
+    analytics.logEvent('late');
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(logEvent.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+      'early',
+      'late',
+    ]);
+  });
+
+  it('accepts events while the service is unavailable', () => {
+    const queue = new AnalyticsEventQueue();
+    const analytics = createQueuedAnalytics(queue, () => null);
+
+    expect(analytics.isSupported()).toBe(true);
+    analytics.logEvent('early');
+
+    expect(names(queue)).toEqual(['early']);
+  });
+
+  it('treats a throwing service getter as no service yet', async () => {
+    let current: AnalyticsService | null = null;
+    const queue = new AnalyticsEventQueue();
+    const { service, logEvent } = analyticsService();
+    const analytics = createQueuedAnalytics(
+      queue,
+      () => {
+        if (!current) {
+          throw new Error('Firebase service not initialized');
+        }
+        return current;
+      },
+      { isOnline: () => true }
+    );
+
+    analytics.logEvent('early');
+    analytics.setUserId('user-1');
+    current = service;
+    analytics.logEvent('late');
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(logEvent.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+      'early',
+      'late',
+    ]);
+  });
+
+  it('passes user ids and properties straight to the service', () => {
+    const queue = new AnalyticsEventQueue();
+    const { service } = analyticsService();
+    const analytics = createQueuedAnalytics(queue, () => service, {
+      isOnline: () => false,
+    });
+
+    analytics.setUserId('user-1');
+    analytics.setUserProperties({ plan: 'pro' });
+
+    expect(service.setUserId).toHaveBeenCalledWith('user-1');
+    expect(service.setUserProperties).toHaveBeenCalledWith({ plan: 'pro' });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createWebAppInitOptions,
+  readWebAppEnv,
+  resolveWebAppEnvironment,
+} from '../src/config/index.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const env = {
+  VITE_FIREBASE_API_KEY: 'key',
+  VITE_FIREBASE_AUTH_DOMAIN: 'app.firebaseapp.com',
+  VITE_FIREBASE_PROJECT_ID: 'app',
+  VITE_FIREBASE_STORAGE_BUCKET: 'app.appspot.com',
+  VITE_FIREBASE_MESSAGING_SENDER_ID: '2',
+  VITE_FIREBASE_APP_ID: '1:2:web:3',
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('resolveWebAppEnvironment', () => {
+  it('prefers VITE_APP_ENV, accepting short names', () => {
+    expect(
+      resolveWebAppEnvironment({ VITE_APP_ENV: 'prod', MODE: 'development' })
+    ).toBe('production');
+  });
+
+  it('falls back to MODE, then PROD', () => {
+    expect(resolveWebAppEnvironment({ MODE: 'staging' })).toBe('staging');
+    expect(resolveWebAppEnvironment({ MODE: 'preview', PROD: true })).toBe(
+      'production'
+    );
+    expect(resolveWebAppEnvironment({})).toBe('development');
+  });
+
+  it('rejects unknown environments', () => {
+    expect(() => resolveWebAppEnvironment({ VITE_APP_ENV: 'qa' })).toThrow(
+      'Unknown VITE_APP_ENV "qa"'
+    );
+  });
+});
+
+describe('readWebAppEnv', () => {
+  it('lists every missing required variable', () => {
+    expect(() =>
+      readWebAppEnv({ VITE_FIREBASE_API_KEY: 'key', VITE_FIREBASE_APP_ID: '' })
+    ).toThrow(
+      'Missing required environment variable(s) for development: ' +
+        'VITE_FIREBASE_AUTH_DOMAIN, VITE_FIREBASE_PROJECT_ID, ' +
+        'VITE_FIREBASE_STORAGE_BUCKET, VITE_FIREBASE_MESSAGING_SENDER_ID, ' +
+        'VITE_FIREBASE_APP_ID'
+    );
+  });
+
+  it('applies overrides for the current environment', () => {
+    const { environment, isProduction, values } = readWebAppEnv({
+      ...env,
+      MODE: 'production',
+      VITE_FIREBASE_PROJECT_ID_PRODUCTION: 'app-prod',
+      VITE_FIREBASE_PROJECT_ID_STAGING: 'app-staging',
+    });
+
+    expect(environment).toBe('production');
+    expect(isProduction).toBe(true);
+    expect(values.VITE_FIREBASE_PROJECT_ID).toBe('app-prod');
+  });
+});
+
+describe('createWebAppInitOptions', () => {
+  it('builds the Firebase config from the environment', () => {
+    expect(
+      createWebAppInitOptions({
+        ...env,
+        VITE_FIREBASE_MEASUREMENT_ID: 'G-1',
+        VITE_FIREBASE_VAPID_KEY: 'vapid',
+      })
+    ).toEqual({
+      firebaseConfig: {
+        apiKey: 'key',
+        authDomain: 'app.firebaseapp.com',
+        projectId: 'app',
+        storageBucket: 'app.appspot.com',
+        messagingSenderId: '2',
+        appId: '1:2:web:3',
+        measurementId: 'G-1',
+        vapidKey: 'vapid',
+      },
+    });
+  });
+
+  it('configures RevenueCat when its key is set', () => {
+    const options = createWebAppInitOptions(
+      {
+        ...env,
+        VITE_APP_ENV: 'staging',
+        VITE_REVENUECAT_API_KEY: 'rc',
+        VITE_REVENUECAT_API_KEY_SANDBOX: 'rc-sandbox',
+      },
+      { revenueCat: { lazy: true } }
+    );
+
+    expect(options.revenueCatConfig).toEqual({
+      apiKey: 'rc',
+      apiKeySandbox: 'rc-sandbox',
+      isProduction: false,
+      lazy: true,
+    });
+  });
+
+  it('requires the RevenueCat key when RevenueCat options are given', () => {
+    expect(() => createWebAppInitOptions(env, { revenueCat: {} })).toThrow(
+      'VITE_REVENUECAT_API_KEY'
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  ConsentManager,
+  createConsentGatedAnalytics,
+} from '../src/consent/index.js';
+import { memoryStorage } from './helpers/storage.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Analytics double recording tracked events. */
+function analyticsService() {
+  return { trackEvent: vi.fn(), trackPageView: vi.fn(), setUserId: vi.fn() };
+}
+
+// ---------------------------------------------------------------------------
+// ConsentManager
+// ---------------------------------------------------------------------------
+
+describe('ConsentManager', () => {
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('denies every category until the user decides', () => {
+    const consent = new ConsentManager();
+
+    expect(consent.getChoices()).toEqual({
+      analytics: false,
+      messaging: false,
+      subscriptions: false,
+    });
+    expect(consent.hasDecided()).toBe(false);
+  });
+
+  it('starts from the configured defaults', () => {
+    const consent = new ConsentManager({ defaults: { analytics: true } });
+
+    expect(consent.isGranted('analytics')).toBe(true);
+    expect(consent.isGranted('messaging')).toBe(false);
+  });
+
+  it('persists updates and keeps unlisted categories', () => {
+    const { data, storage } = memoryStorage();
+    const consent = new ConsentManager({ storage });
+
+    consent.update({ analytics: true });
+    consent.update({ messaging: true });
+
+    expect(consent.hasDecided()).toBe(true);
+    expect(JSON.parse(data.get('sudobility.consent') ?? '')).toEqual({
+      analytics: true,
+      messaging: true,
+      subscriptions: false,
+    });
+  });
+
+  it('loads saved choices', async () => {
+    const { storage } = memoryStorage({
+      prefs: JSON.stringify({ subscriptions: true }),
+    });
+    const consent = new ConsentManager({ storage, storageKey: 'prefs' });
+
+    await consent.load();
+
+    expect(consent.hasDecided()).toBe(true);
+    expect(consent.isGranted('subscriptions')).toBe(true);
+  });
+
+  it('keeps choices in localStorage for the next session by default', async () => {
+    new ConsentManager().update({ analytics: true });
+    // A new browser session starts with empty sessionStorage
+    sessionStorage.clear();
+    const consent = new ConsentManager();
+
+    await consent.load();
+
+    expect(consent.hasDecided()).toBe(true);
+    expect(consent.isGranted('analytics')).toBe(true);
+  });
+
+  it('keeps choices in memory with a null storage', async () => {
+    new ConsentManager({ storage: null }).update({ analytics: true });
+    const consent = new ConsentManager();
+
+    await consent.load();
+
+    expect(localStorage.getItem('sudobility.consent')).toBeNull();
+    expect(consent.hasDecided()).toBe(false);
+  });
+
+  it('ignores malformed saved choices', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { storage } = memoryStorage({ 'sudobility.consent': '{' });
+    const consent = new ConsentManager({ storage });
+
+    await consent.load();
+
+    expect(consent.hasDecided()).toBe(false);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('notifies subscribers of changes only', () => {
+    const consent = new ConsentManager();
+    const listener = vi.fn();
+    consent.subscribe(listener);
+
+    consent.update({ analytics: false });
+    consent.grantAll();
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledWith(
+      { analytics: true, messaging: true, subscriptions: true },
+      { analytics: false, messaging: false, subscriptions: false }
+    );
+  });
+
+  it('forgets the choices on reset', () => {
+    const { data, storage } = memoryStorage();
+    const consent = new ConsentManager({ storage });
+    consent.grantAll();
+
+    consent.reset();
+
+    expect(consent.hasDecided()).toBe(false);
+    expect(consent.isGranted('analytics')).toBe(false);
+    expect(data.has('sudobility.consent')).toBe(false);
+  });
+
+  it('resolves whenGranted once the category is granted', async () => {
+    const consent = new ConsentManager();
+    const granted = vi.fn();
+    void consent.whenGranted('messaging').then(granted);
+
+    consent.update({ analytics: true });
+    await Promise.resolve();
+    expect(granted).not.toHaveBeenCalled();
+
+    consent.update({ messaging: true });
+    await Promise.resolve();
+    expect(granted).toHaveBeenCalledOnce();
+  });
+
+  it('rejects whenGranted with the abort reason when aborted', async () => {
+    const consent = new ConsentManager();
+    const controller = new AbortController();
+    const waiting = consent.whenGranted('subscriptions', controller.signal);
+
+    controller.abort(new Error('torn down'));
+
+    await expect(waiting).rejects.toThrow('torn down');
+    expect(consent.isGranted('subscriptions')).toBe(false);
+    await expect(
+      consent.whenGranted('subscriptions', controller.signal)
+    ).rejects.toThrow('torn down');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createConsentGatedAnalytics
+// ---------------------------------------------------------------------------
+
+describe('createConsentGatedAnalytics', () => {
+  it('queues events until analytics is granted, then replays them', () => {
+    const consent = new ConsentManager();
+    const service = analyticsService();
+    const initialize = vi.fn(() => service);
+    const analytics = createConsentGatedAnalytics(consent, initialize);
+
+    analytics.trackEvent('first');
+    analytics.trackPageView('/second');
+    expect(initialize).not.toHaveBeenCalled();
+
+    consent.update({ analytics: true });
+
+    expect(initialize).toHaveBeenCalledOnce();
+    expect(service.trackEvent).toHaveBeenCalledWith('first');
+    expect(service.trackPageView).toHaveBeenCalledWith('/second');
+  });
+
+  it('calls the service directly when already granted', () => {
+    const consent = new ConsentManager({ defaults: { analytics: true } });
+    const service = analyticsService();
+    const analytics = createConsentGatedAnalytics(consent, () => service);
+
+    analytics.trackEvent('now', { id: 1 });
+
+    expect(service.trackEvent).toHaveBeenCalledWith('now', { id: 1 });
+  });
+
+  it('drops the oldest events beyond maxQueuedEvents', () => {
+    const consent = new ConsentManager();
+    const service = analyticsService();
+    const analytics = createConsentGatedAnalytics(consent, () => service, {
+      maxQueuedEvents: 2,
+    });
+
+    analytics.trackEvent('a');
+    analytics.trackEvent('b');
+    analytics.trackEvent('c');
+    consent.update({ analytics: true });
+
+    expect(service.trackEvent.mock.calls).toEqual([['b'], ['c']]);
+  });
+
+  it('stops sending and clears identifiers when revoked', () => {
+    const consent = new ConsentManager({ defaults: { analytics: true } });
+    const service = analyticsService();
+    const onRevoke = vi.fn();
+    const analytics = createConsentGatedAnalytics(consent, () => service, {
+      onRevoke,
+    });
+
+    consent.update({ analytics: false });
+    analytics.trackEvent('after');
+
+    expect(onRevoke).toHaveBeenCalledOnce();
+    expect(service.trackEvent).not.toHaveBeenCalled();
+  });
+
+  it('is not mistaken for a promise', async () => {
+    const consent = new ConsentManager();
+    const analytics = createConsentGatedAnalytics(consent, analyticsService);
+
+    await expect(Promise.resolve(analytics)).resolves.toBe(analytics);
+  });
+});
@@ -0,0 +1,17 @@
+import { vi } from 'vitest';
+import type { KeyValueStorage } from '../../src/storage/index.js';
+
+/** In-memory storage backed by a Map, with spied methods. */
+export function memoryStorage(entries: Record<string, string> = {}) {
+  const data = new Map(Object.entries(entries));
+  const storage: KeyValueStorage = {
+    getItem: vi.fn((key: string) => data.get(key) ?? null),
+    setItem: vi.fn((key: string, value: string) => {
+      data.set(key, value);
+    }),
+    removeItem: vi.fn((key: string) => {
+      data.delete(key);
+    }),
+  };
+  return { data, storage };
+}
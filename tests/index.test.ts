@@ -11,8 +11,11 @@ import {
   initializeInfoService,
   getInfoService,
   resetInfoService,
+  INITIAL_BANNER_STATE,
 } from '../src/info/info.web.js';
+import { setInfoTranslator } from '../src/info/info.i18n.js';
 import { InfoType } from '@sudobility/types';
+import { memoryStorage } from './helpers/storage.js';
 
 describe('WebInfoService', () => {
   beforeEach(() => {
@@ -38,6 +41,21 @@ describe('WebInfoService', () => {
     expect(state.variant).toBe(InfoType.INFO);
   });
 
+  it('returns the same state object until the state changes', () => {
+    const service = new WebInfoService();
+    const initial = service.getState();
+
+    expect(service.getState()).toBe(initial);
+    expect(initial).toBe(INITIAL_BANNER_STATE);
+
+    service.show('Title', 'Message', InfoType.INFO);
+    const shown = service.getState();
+
+    expect(shown).not.toBe(initial);
+    expect(service.getState()).toBe(shown);
+    expect(initial.isVisible).toBe(false);
+  });
+
   it('updates state when show is called', () => {
     const service = new WebInfoService();
 
@@ -138,44 +156,1371 @@ describe('WebInfoService', () => {
   });
 });
 
-describe('createWebInfoService', () => {
-  it('creates a WebInfoService instance', () => {
-    const service = createWebInfoService();
-    expect(service).toBeInstanceOf(WebInfoService);
+describe('WebInfoService queue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns a unique id for each banner', () => {
+    const service = new WebInfoService();
+
+    const first = service.show('First', 'Message', InfoType.INFO);
+    const second = service.show('Second', 'Message', InfoType.INFO);
+
+    expect(first).not.toBe(second);
+    expect(service.getState().items.map((item) => item.id)).toEqual([
+      first,
+      second,
+    ]);
+  });
+
+  it('stacks banners up to maxVisible and queues the rest', () => {
+    const service = new WebInfoService({ maxVisible: 2 });
+
+    service.show('One', 'Message', InfoType.INFO);
+    service.show('Two', 'Message', InfoType.INFO);
+    service.show('Three', 'Message', InfoType.INFO);
+
+    const state = service.getState();
+    expect(state.items.map((item) => item.title)).toEqual(['One', 'Two']);
+    expect(state.queue.map((item) => item.title)).toEqual(['Three']);
+    expect(state.title).toBe('Two');
+  });
+
+  it('promotes queued banners in FIFO order when one is dismissed', () => {
+    const service = new WebInfoService({ maxVisible: 1 });
+
+    const first = service.show('One', 'Message', InfoType.INFO);
+    service.show('Two', 'Message', InfoType.INFO);
+    service.show('Three', 'Message', InfoType.INFO);
+
+    service.dismiss(first);
+
+    const state = service.getState();
+    expect(state.items.map((item) => item.title)).toEqual(['Two']);
+    expect(state.queue.map((item) => item.title)).toEqual(['Three']);
+  });
+
+  it('dismiss(id) closes a specific visible banner', () => {
+    const service = new WebInfoService();
+
+    service.show('One', 'Message', InfoType.INFO);
+    const second = service.show('Two', 'Message', InfoType.INFO);
+    service.show('Three', 'Message', InfoType.INFO);
+
+    service.dismiss(second);
+
+    expect(service.getState().items.map((item) => item.title)).toEqual([
+      'One',
+      'Three',
+    ]);
+  });
+
+  it('dismiss(id) removes a queued banner without showing it', () => {
+    const service = new WebInfoService({ maxVisible: 1 });
+
+    service.show('One', 'Message', InfoType.INFO);
+    const queued = service.show('Two', 'Message', InfoType.INFO);
+
+    service.dismiss(queued);
+
+    expect(service.getState().queue).toEqual([]);
+    expect(service.getState().items.map((item) => item.title)).toEqual(['One']);
+  });
+
+  it('starts the auto-dismiss timer only once a banner becomes visible', () => {
+    const service = new WebInfoService({ maxVisible: 1 });
+
+    service.show('One', 'Message', InfoType.INFO, 3000);
+    service.show('Two', 'Message', InfoType.INFO, 2000);
+
+    vi.advanceTimersByTime(3000);
+    expect(service.getState().title).toBe('Two');
+
+    vi.advanceTimersByTime(1999);
+    expect(service.getState().isVisible).toBe(true);
+
+    vi.advanceTimersByTime(1);
+    expect(service.getState().isVisible).toBe(false);
+  });
+
+  it('dismissAll clears visible and queued banners', () => {
+    const service = new WebInfoService({ maxVisible: 1 });
+
+    service.show('One', 'Message', InfoType.INFO);
+    service.show('Two', 'Message', InfoType.INFO);
+
+    service.dismissAll();
+
+    const state = service.getState();
+    expect(state.isVisible).toBe(false);
+    expect(state.items).toEqual([]);
+    expect(state.queue).toEqual([]);
   });
 });
 
-describe('singleton functions', () => {
+describe('WebInfoService priorities', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
   afterEach(() => {
-    resetInfoService();
+    vi.useRealTimers();
   });
 
-  it('initializeInfoService creates a service', () => {
-    initializeInfoService();
-    const service = getInfoService();
-    expect(service).toBeInstanceOf(WebInfoService);
+  it('higher priority banner preempts a lower priority one', () => {
+    const service = new WebInfoService({ maxVisible: 1 });
+
+    service.show('Saved', 'Message', InfoType.SUCCESS);
+    service.show('Failed', 'Message', InfoType.ERROR);
+
+    const state = service.getState();
+    expect(state.items.map((item) => item.title)).toEqual(['Failed']);
+    expect(state.queue.map((item) => item.title)).toEqual(['Saved']);
   });
 
-  it('initializeInfoService accepts custom service', () => {
-    const customService = new WebInfoService();
-    initializeInfoService(customService);
-    expect(getInfoService()).toBe(customService);
+  it('lower priority banner queues behind a higher priority one', () => {
+    const service = new WebInfoService({ maxVisible: 1 });
+
+    const error = service.show('Failed', 'Message', InfoType.ERROR);
+    service.show('Saved', 'Message', InfoType.SUCCESS);
+
+    expect(service.getState().title).toBe('Failed');
+
+    service.dismiss(error);
+    expect(service.getState().title).toBe('Saved');
   });
 
-  it('initializeInfoService does not overwrite existing service', () => {
-    const firstService = new WebInfoService();
-    const secondService = new WebInfoService();
+  it('orders the queue by priority, FIFO within a priority', () => {
+    const service = new WebInfoService({ maxVisible: 1 });
 
-    initializeInfoService(firstService);
-    initializeInfoService(secondService);
+    service.show('Blocking', 'Message', InfoType.ERROR);
+    service.show('Info 1', 'Message', InfoType.INFO);
+    service.show('Warning', 'Message', InfoType.WARNING);
+    service.show('Info 2', 'Message', InfoType.INFO);
 
-    expect(getInfoService()).toBe(firstService);
+    expect(service.getState().queue.map((item) => item.title)).toEqual([
+      'Warning',
+      'Info 1',
+      'Info 2',
+    ]);
   });
 
-  it('getInfoService throws if not initialized', () => {
-    expect(() => getInfoService()).toThrow(
-      'Info service not initialized. Call initializeInfoService() at app startup.'
+  it('restarts the timer of a preempted banner when it is shown again', () => {
+    const service = new WebInfoService({ maxVisible: 1 });
+
+    service.show('Saved', 'Message', InfoType.SUCCESS, 3000);
+    vi.advanceTimersByTime(2000);
+    service.show('Failed', 'Message', InfoType.ERROR, 1000);
+
+    vi.advanceTimersByTime(1000);
+    expect(service.getState().title).toBe('Saved');
+
+    vi.advanceTimersByTime(2999);
+    expect(service.getState().isVisible).toBe(true);
+
+    vi.advanceTimersByTime(1);
+    expect(service.getState().isVisible).toBe(false);
+  });
+
+  it('keeps error banners until dismissed when no interval is given', () => {
+    const service = new WebInfoService();
+
+    service.show('Failed', 'Message', InfoType.ERROR);
+    vi.advanceTimersByTime(60000);
+
+    expect(service.getState().isVisible).toBe(true);
+  });
+
+  it('auto-dismisses error banners with an explicit interval', () => {
+    const service = new WebInfoService();
+
+    service.show('Failed', 'Message', InfoType.ERROR, 2000);
+    vi.advanceTimersByTime(2000);
+
+    expect(service.getState().isVisible).toBe(false);
+  });
+
+  it('accepts custom priorities and rules', () => {
+    const service = new WebInfoService({
+      maxVisible: 1,
+      priorityRules: {
+        priorities: { [InfoType.SUCCESS]: 10 },
+        persistentTypes: [],
+      },
+    });
+
+    service.show('Failed', 'Message', InfoType.ERROR);
+    service.show('Saved', 'Message', InfoType.SUCCESS);
+    expect(service.getState().title).toBe('Saved');
+
+    vi.advanceTimersByTime(5000);
+    vi.advanceTimersByTime(5000);
+    expect(service.getState().isVisible).toBe(false);
+  });
+
+  it('does not preempt when preemption is disabled', () => {
+    const service = new WebInfoService({
+      maxVisible: 1,
+      priorityRules: { preempt: false },
+    });
+
+    service.show('Saved', 'Message', InfoType.SUCCESS);
+    service.show('Failed', 'Message', InfoType.ERROR);
+
+    expect(service.getState().title).toBe('Saved');
+    expect(service.getState().queue.map((item) => item.title)).toEqual([
+      'Failed',
+    ]);
+  });
+
+  it('keeps FIFO order when queueByPriority is disabled', () => {
+    const service = new WebInfoService({
+      maxVisible: 1,
+      priorityRules: { preempt: false, queueByPriority: false },
+    });
+
+    service.show('Blocking', 'Message', InfoType.INFO);
+    service.show('Info', 'Message', InfoType.INFO);
+    service.show('Failed', 'Message', InfoType.ERROR);
+
+    expect(service.getState().queue.map((item) => item.title)).toEqual([
+      'Info',
+      'Failed',
+    ]);
+  });
+});
+
+describe('WebInfoService actions', () => {
+  it('stores actions on the banner', () => {
+    const service = new WebInfoService();
+    const handler = vi.fn();
+
+    service.show('Deleted', 'Message', InfoType.INFO, undefined, {
+      actions: [{ label: 'Undo', handler }],
+    });
+
+    expect(service.getState().items[0]?.actions).toEqual([
+      { label: 'Undo', handler },
+    ]);
+  });
+
+  it('triggerAction calls the handler and dismisses the banner', () => {
+    const service = new WebInfoService();
+    const handler = vi.fn();
+
+    const id = service.show('Deleted', 'Message', InfoType.INFO, undefined, {
+      actions: [{ label: 'Undo', handler }],
+    });
+    service.triggerAction(id, 0);
+
+    expect(handler).toHaveBeenCalledWith(id);
+    expect(service.getState().isVisible).toBe(false);
+  });
+
+  it('keeps the banner when the action sets dismiss to false', () => {
+    const service = new WebInfoService();
+    const handler = vi.fn();
+
+    const id = service.show('Failed', 'Message', InfoType.ERROR, undefined, {
+      actions: [{ label: 'Details', handler, dismiss: false }],
+    });
+    service.triggerAction(id, 0);
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(service.getState().isVisible).toBe(true);
+  });
+
+  it('ignores unknown banners and action indexes', () => {
+    const service = new WebInfoService();
+    const handler = vi.fn();
+
+    const id = service.show('Deleted', 'Message', InfoType.INFO, undefined, {
+      actions: [{ label: 'Undo', handler }],
+    });
+    service.triggerAction(id, 1);
+    service.triggerAction('missing', 0);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(service.getState().isVisible).toBe(true);
+  });
+});
+
+describe('WebInfoService showAsync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves with timeout when the banner auto-dismisses', async () => {
+    const service = new WebInfoService();
+
+    const outcome = service.showAsync('Saved', 'Message', InfoType.INFO, 3000);
+    vi.advanceTimersByTime(3000);
+
+    await expect(outcome).resolves.toBe('timeout');
+  });
+
+  it('resolves with dismissed when the banner is dismissed', async () => {
+    const service = new WebInfoService();
+
+    const outcome = service.showAsync('Saved', 'Message', InfoType.INFO);
+    service.dismiss();
+
+    await expect(outcome).resolves.toBe('dismissed');
+  });
+
+  it('resolves with dismissed when a queued banner is dropped', async () => {
+    const service = new WebInfoService({ maxVisible: 1 });
+
+    service.show('First', 'Message', InfoType.INFO);
+    const outcome = service.showAsync('Second', 'Message', InfoType.INFO);
+    service.dismissAll();
+
+    await expect(outcome).resolves.toBe('dismissed');
+  });
+
+  it('resolves with the clicked action', async () => {
+    const service = new WebInfoService();
+    const handler = vi.fn();
+
+    const outcome = service.showAsync(
+      'Deleted',
+      'Message',
+      InfoType.INFO,
+      undefined,
+      { actions: [{ label: 'Undo', handler }] }
+    );
+    const id = service.getState().items[0]?.id as string;
+    service.triggerAction(id, 0);
+
+    await expect(outcome).resolves.toEqual({ action: 'Undo' });
+  });
+
+  it('resolves on action click even when the banner stays', async () => {
+    const service = new WebInfoService();
+
+    const outcome = service.showAsync(
+      'Failed',
+      'Message',
+      InfoType.ERROR,
+      undefined,
+      { actions: [{ label: 'Details', handler: vi.fn(), dismiss: false }] }
+    );
+    const id = service.getState().items[0]?.id as string;
+    service.triggerAction(id, 0);
+    service.dismiss(id);
+
+    await expect(outcome).resolves.toEqual({ action: 'Details' });
+  });
+
+  it('resolves with replaced when another banner takes its place', async () => {
+    const service = new WebInfoService();
+
+    service.show('Before', 'Message', InfoType.INFO);
+    const outcome = service.showAsync('Saving', 'Message', InfoType.INFO);
+    const id = service.getState().items[1]?.id as string;
+    service.show('Saved', 'Message', InfoType.SUCCESS, undefined, {
+      replaces: id,
+    });
+
+    await expect(outcome).resolves.toBe('replaced');
+    expect(service.getState().items.map((item) => item.title)).toEqual([
+      'Before',
+      'Saved',
+    ]);
+  });
+
+  it('shows normally when the replaced banner no longer exists', () => {
+    const service = new WebInfoService();
+
+    service.show('Saved', 'Message', InfoType.SUCCESS, undefined, {
+      replaces: 'missing',
+    });
+
+    expect(service.getState().title).toBe('Saved');
+  });
+});
+
+describe('WebInfoService promise', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the loading banner until the promise settles', async () => {
+    const service = new WebInfoService({ flashStorage: null });
+    let resolve: (value: string) => void = () => {};
+    const operation = new Promise<string>((r) => (resolve = r));
+
+    const result = service.promise(operation, {
+      loading: 'Saving…',
+      success: 'Saved',
+      error: 'Failed',
+    });
+    vi.advanceTimersByTime(60_000);
+
+    expect(service.getState().title).toBe('Saving…');
+    expect(service.getState().variant).toBe(InfoType.INFO);
+
+    resolve('doc');
+    await expect(result).resolves.toBe('doc');
+  });
+
+  it('replaces the loading banner in place on success', async () => {
+    const service = new WebInfoService({ flashStorage: null });
+    service.show('Before', '', InfoType.INFO, 0);
+
+    await service.promise(Promise.resolve({ name: 'Report' }), {
+      loading: 'Saving…',
+      success: (saved) => ({ title: 'Saved', description: saved.name }),
+      error: 'Failed',
+    });
+    service.show('After', '', InfoType.INFO, 0);
+
+    const items = service.getState().items;
+    expect(items.map((item) => item.title)).toEqual([
+      'Before',
+      'Saved',
+      'After',
+    ]);
+    expect(items[1]?.description).toBe('Report');
+    expect(items[1]?.variant).toBe(InfoType.SUCCESS);
+    expect(service.getHistory()[2]?.outcome).toBe('replaced');
+
+    vi.advanceTimersByTime(5000);
+    expect(service.getState().items.map((item) => item.title)).toEqual([
+      'Before',
+      'After',
+    ]);
+  });
+
+  it('shows the error and passes the rejection through', async () => {
+    const service = new WebInfoService({ flashStorage: null });
+    const failure = new Error('offline');
+
+    const result = service.promise(() => Promise.reject(failure), {
+      loading: 'Saving…',
+      success: 'Saved',
+      error: (error) => `Failed: ${(error as Error).message}`,
+    });
+
+    await expect(result).rejects.toBe(failure);
+    expect(service.getState().items).toHaveLength(1);
+    expect(service.getState().title).toBe('Failed: offline');
+    expect(service.getState().variant).toBe(InfoType.ERROR);
+  });
+
+  it('shows the result as a new banner if the loading one was closed', async () => {
+    const service = new WebInfoService({ flashStorage: null });
+    let resolve: () => void = () => {};
+
+    const result = service.promise(new Promise<void>((r) => (resolve = r)), {
+      loading: 'Saving…',
+      success: 'Saved',
+      error: 'Failed',
+    });
+    service.dismiss();
+    resolve();
+    await result;
+
+    expect(service.getState().items.map((item) => item.title)).toEqual([
+      'Saved',
+    ]);
+  });
+
+  it('closes the loading banner when the result is rate-limited', async () => {
+    const service = new WebInfoService({
+      flashStorage: null,
+      dedupe: { windowMs: 0, rateLimit: { max: 1, periodMs: 60_000 } },
+    });
+    service.show('Saved', '', InfoType.SUCCESS, 0);
+
+    await service.promise(Promise.resolve(), {
+      loading: 'Saving…',
+      success: 'Saved',
+      error: 'Failed',
+    });
+
+    expect(service.getState().items.map((item) => item.title)).toEqual([
+      'Saved',
+    ]);
+  });
+
+  it('persists the result but not the loading banner', async () => {
+    const data = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        data.set(key, value);
+      },
+      removeItem: (key: string) => {
+        data.delete(key);
+      },
+    };
+    const service = new WebInfoService({ flashStorage: storage });
+    let resolve: () => void = () => {};
+
+    const result = service.promise(
+      new Promise<void>((r) => (resolve = r)),
+      { loading: 'Saving…', success: 'Saved', error: 'Failed' },
+      { persist: true }
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(data.size).toBe(0);
+
+    resolve();
+    await result;
+    await vi.advanceTimersByTimeAsync(0);
+    const saved = JSON.parse(data.get('sudobility.info.flash') as string) as {
+      title: string;
+    }[];
+    expect(saved.map((entry) => entry.title)).toEqual(['Saved']);
+  });
+
+  it('keeps concurrent operations apart', async () => {
+    const service = new WebInfoService({ flashStorage: null });
+    let resolveFirst: () => void = () => {};
+    const messages = { loading: 'Saving…', success: 'Saved', error: 'Failed' };
+
+    const first = service.promise(
+      new Promise<void>((r) => (resolveFirst = r)),
+      messages
     );
+    const second = service.promise(Promise.reject(new Error('x')), messages);
+    await expect(second).rejects.toThrow('x');
+
+    expect(service.getState().items.map((item) => item.title)).toEqual([
+      'Saving…',
+      'Failed',
+    ]);
+
+    resolveFirst();
+    await first;
+    expect(service.getState().items.map((item) => item.title)).toEqual([
+      'Saved',
+      'Failed',
+    ]);
+  });
+});
+
+describe('WebInfoService pause and resume', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pausing a banner keeps it visible past its duration', () => {
+    const service = new WebInfoService();
+
+    const id = service.show('Test', 'Message', InfoType.INFO, 3000);
+    vi.advanceTimersByTime(1000);
+    service.pause(id);
+    vi.advanceTimersByTime(10000);
+
+    expect(service.getState().isVisible).toBe(true);
+  });
+
+  it('resuming continues with the remaining time', () => {
+    const service = new WebInfoService();
+
+    const id = service.show('Test', 'Message', InfoType.INFO, 3000);
+    vi.advanceTimersByTime(1000);
+    service.pause(id);
+    vi.advanceTimersByTime(10000);
+    service.resume(id);
+
+    vi.advanceTimersByTime(1999);
+    expect(service.getState().isVisible).toBe(true);
+
+    vi.advanceTimersByTime(1);
+    expect(service.getState().isVisible).toBe(false);
+  });
+
+  it('pausing one banner does not affect the others', () => {
+    const service = new WebInfoService();
+
+    const first = service.show('First', 'Message', InfoType.INFO, 3000);
+    service.show('Second', 'Message', InfoType.INFO, 3000);
+    service.pause(first);
+    vi.advanceTimersByTime(3000);
+
+    expect(service.getState().items.map((item) => item.title)).toEqual([
+      'First',
+    ]);
+  });
+
+  it('nested pauses need a matching number of resumes', () => {
+    const service = new WebInfoService();
+
+    const id = service.show('Test', 'Message', InfoType.INFO, 3000);
+    service.pause(id);
+    service.pause(id);
+    service.resume(id);
+    vi.advanceTimersByTime(3000);
+    expect(service.getState().isVisible).toBe(true);
+
+    service.resume(id);
+    vi.advanceTimersByTime(3000);
+    expect(service.getState().isVisible).toBe(false);
+  });
+
+  it('pause() without an id pauses every banner', () => {
+    const service = new WebInfoService();
+
+    service.show('First', 'Message', InfoType.INFO, 3000);
+    service.show('Second', 'Message', InfoType.INFO, 4000);
+    vi.advanceTimersByTime(1000);
+    service.pause();
+    vi.advanceTimersByTime(10000);
+    expect(service.getState().items).toHaveLength(2);
+
+    service.resume();
+    vi.advanceTimersByTime(2000);
+    expect(service.getState().items.map((item) => item.title)).toEqual([
+      'Second',
+    ]);
+
+    vi.advanceTimersByTime(1000);
+    expect(service.getState().isVisible).toBe(false);
+  });
+
+  it('banners promoted during a global pause wait for resume', () => {
+    const service = new WebInfoService({ maxVisible: 1 });
+
+    const first = service.show('First', 'Message', InfoType.INFO, 3000);
+    service.show('Second', 'Message', InfoType.INFO, 3000);
+    service.pause();
+    service.dismiss(first);
+    vi.advanceTimersByTime(10000);
+    expect(service.getState().title).toBe('Second');
+
+    service.resume();
+    vi.advanceTimersByTime(3000);
+    expect(service.getState().isVisible).toBe(false);
+  });
+
+  it('ignores resume calls without a matching pause', () => {
+    const service = new WebInfoService();
+
+    const id = service.show('Test', 'Message', InfoType.INFO, 3000);
+    service.resume(id);
+    service.resume();
+    vi.advanceTimersByTime(3000);
+
+    expect(service.getState().isVisible).toBe(false);
+  });
+
+  it('manual dismiss still works while paused', () => {
+    const service = new WebInfoService();
+
+    const id = service.show('Test', 'Message', InfoType.INFO, 3000);
+    service.pause(id);
+    service.dismiss(id);
+
+    expect(service.getState().isVisible).toBe(false);
+  });
+});
+
+describe('WebInfoService history', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records shown banners newest first with a timestamp', () => {
+    const service = new WebInfoService();
+
+    service.show('First', 'Message', InfoType.INFO);
+    vi.advanceTimersByTime(1000);
+    service.show('Second', 'Message', InfoType.SUCCESS);
+
+    const history = service.getHistory();
+    expect(history.map((entry) => entry.title)).toEqual(['Second', 'First']);
+    expect(history[1]).toEqual(
+      expect.objectContaining({
+        variant: InfoType.INFO,
+        shownAt: Date.parse('2026-01-01T00:00:00Z'),
+        read: false,
+      })
+    );
+  });
+
+  it('keeps entries after the banner auto-dismisses', () => {
+    const service = new WebInfoService();
+
+    service.show('Saved', 'Message', InfoType.INFO, 3000);
+    vi.advanceTimersByTime(3000);
+
+    expect(service.getHistory()[0]).toEqual(
+      expect.objectContaining({
+        title: 'Saved',
+        outcome: 'timeout',
+        dismissedAt: Date.parse('2026-01-01T00:00:03Z'),
+        read: false,
+      })
+    );
+  });
+
+  it('marks entries read when the user dismisses or clicks an action', () => {
+    const service = new WebInfoService();
+
+    const dismissed = service.show('Dismissed', 'Message', InfoType.INFO);
+    const clicked = service.show('Clicked', 'Message', InfoType.INFO, 0, {
+      actions: [{ label: 'Details', handler: vi.fn(), dismiss: false }],
+    });
+    service.dismiss(dismissed);
+    service.triggerAction(clicked, 0);
+
+    const history = service.getHistory();
+    expect(history.find((entry) => entry.id === dismissed)).toEqual(
+      expect.objectContaining({ outcome: 'dismissed', read: true })
+    );
+    expect(history.find((entry) => entry.id === clicked)?.read).toBe(true);
+  });
+
+  it('markAsRead marks one or all entries', () => {
+    const service = new WebInfoService();
+
+    const first = service.show('First', 'Message', InfoType.INFO);
+    service.show('Second', 'Message', InfoType.INFO);
+
+    service.markAsRead(first);
+    expect(service.getHistory().map((entry) => entry.read)).toEqual([
+      false,
+      true,
+    ]);
+
+    service.markAsRead();
+    expect(service.getHistory().every((entry) => entry.read)).toBe(true);
+  });
+
+  it('clearHistory removes every entry', () => {
+    const service = new WebInfoService();
+
+    service.show('Saved', 'Message', InfoType.INFO);
+    service.clearHistory();
+
+    expect(service.getHistory()).toEqual([]);
+  });
+
+  it('keeps at most historyLimit entries', () => {
+    const service = new WebInfoService({ historyLimit: 2 });
+
+    service.show('One', 'Message', InfoType.INFO);
+    service.show('Two', 'Message', InfoType.INFO);
+    service.show('Three', 'Message', InfoType.INFO);
+
+    expect(service.getHistory().map((entry) => entry.title)).toEqual([
+      'Three',
+      'Two',
+    ]);
+  });
+
+  it('records nothing when history is disabled', () => {
+    const service = new WebInfoService({ historyLimit: 0 });
+
+    service.show('Saved', 'Message', InfoType.INFO);
+
+    expect(service.getHistory()).toEqual([]);
+  });
+
+  it('notifies history subscribers', () => {
+    const service = new WebInfoService();
+    const listener = vi.fn();
+
+    service.subscribeHistory(listener);
+    expect(listener).toHaveBeenLastCalledWith([]);
+
+    service.show('Saved', 'Message', InfoType.INFO);
+    expect(listener).toHaveBeenLastCalledWith([
+      expect.objectContaining({ title: 'Saved' }),
+    ]);
+  });
+});
+
+describe('WebInfoService deduplication', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('coalesces identical messages into one banner with a counter', () => {
+    const service = new WebInfoService();
+
+    const first = service.show('Network error', 'Retry', InfoType.ERROR);
+    const second = service.show('Network error', 'Retry', InfoType.ERROR);
+    const third = service.show('Network error', 'Retry', InfoType.ERROR);
+
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(service.getState().items).toHaveLength(1);
+    expect(service.getState().items[0]?.count).toBe(3);
+    expect(service.getHistory()[0]?.count).toBe(3);
+  });
+
+  it('does not reset the auto-dismiss timer when coalescing', () => {
+    const service = new WebInfoService();
+
+    service.show('Offline', 'Message', InfoType.INFO, 3000);
+    vi.advanceTimersByTime(2000);
+    service.show('Offline', 'Message', InfoType.INFO, 3000);
+    vi.advanceTimersByTime(1000);
+
+    expect(service.getState().isVisible).toBe(false);
+  });
+
+  it('shows messages that differ in title, description or type', () => {
+    const service = new WebInfoService();
+
+    service.show('Saved', 'Message', InfoType.INFO);
+    service.show('Saved', 'Other', InfoType.INFO);
+    service.show('Saved', 'Message', InfoType.SUCCESS);
+
+    expect(service.getState().items).toHaveLength(3);
+  });
+
+  it('shows a new banner once the window since the last repeat has passed', () => {
+    const service = new WebInfoService({ dedupe: { windowMs: 1000 } });
+
+    service.show('Offline', 'Message', InfoType.INFO, 0);
+    vi.advanceTimersByTime(1001);
+    service.show('Offline', 'Message', InfoType.INFO, 0);
+
+    expect(service.getState().items).toHaveLength(2);
+  });
+
+  it('shows a new banner once the previous one is dismissed', () => {
+    const service = new WebInfoService();
+
+    const first = service.show('Offline', 'Message', InfoType.INFO);
+    service.dismiss(first);
+    const second = service.show('Offline', 'Message', InfoType.INFO);
+
+    expect(second).not.toBe(first);
+    expect(service.getState().items[0]?.count).toBeUndefined();
+  });
+
+  it('uses an explicit key instead of the message content', () => {
+    const service = new WebInfoService();
+
+    service.show('Retrying (1)', 'Message', InfoType.INFO, undefined, {
+      key: 'retry',
+    });
+    service.show('Retrying (2)', 'Message', InfoType.INFO, undefined, {
+      key: 'retry',
+    });
+
+    expect(service.getState().items).toHaveLength(1);
+  });
+
+  it('shows every message when dedupe is disabled', () => {
+    const service = new WebInfoService({ dedupe: false });
+
+    service.show('Offline', 'Message', InfoType.INFO);
+    service.show('Offline', 'Message', InfoType.INFO);
+
+    expect(service.getState().items).toHaveLength(2);
+  });
+
+  it('drops messages beyond the rate limit', async () => {
+    const service = new WebInfoService({
+      dedupe: { windowMs: 0, rateLimit: { max: 2, periodMs: 10000 } },
+    });
+
+    service.show('Offline', 'Message', InfoType.INFO, 1000);
+    service.show('Offline', 'Message', InfoType.INFO, 1000);
+    vi.advanceTimersByTime(1000);
+    const outcome = service.showAsync('Offline', 'Message', InfoType.INFO);
+
+    expect(service.getState().isVisible).toBe(false);
+    await expect(outcome).resolves.toBe('suppressed');
+
+    vi.advanceTimersByTime(9000);
+    service.show('Offline', 'Message', InfoType.INFO);
+    expect(service.getState().isVisible).toBe(true);
+  });
+
+  it('resolves every coalesced showAsync with the shared outcome', async () => {
+    const service = new WebInfoService();
+
+    const first = service.showAsync('Offline', 'Message', InfoType.INFO);
+    const second = service.showAsync('Offline', 'Message', InfoType.INFO);
+    service.dismiss();
+
+    await expect(first).resolves.toBe('dismissed');
+    await expect(second).resolves.toBe('dismissed');
+  });
+
+  it('gives every message with actions a banner and outcome of its own', async () => {
+    const service = new WebInfoService();
+    const firstUndo = vi.fn();
+    const secondUndo = vi.fn();
+
+    const first = service.showAsync('Deleted', '1 item', InfoType.INFO, 0, {
+      actions: [{ label: 'Undo', handler: firstUndo }],
+    });
+    const second = service.showAsync('Deleted', '1 item', InfoType.INFO, 0, {
+      actions: [{ label: 'Undo', handler: secondUndo }],
+    });
+    const [firstItem, secondItem] = service.getState().items;
+    service.triggerAction(secondItem?.id ?? '', 0);
+    service.dismiss(firstItem?.id);
+
+    expect(firstItem?.count).toBeUndefined();
+    expect(secondUndo).toHaveBeenCalledOnce();
+    expect(firstUndo).not.toHaveBeenCalled();
+    await expect(first).resolves.toBe('dismissed');
+    await expect(second).resolves.toEqual({ action: 'Undo' });
+  });
+
+  it('suppresses rate-limited messages with actions', async () => {
+    const service = new WebInfoService({
+      dedupe: { rateLimit: { max: 1, periodMs: 10000 } },
+    });
+    const actions = [{ label: 'Undo', handler: vi.fn() }];
+
+    const first = service.showAsync('Deleted', '1 item', InfoType.INFO, 0, {
+      actions,
+    });
+    const second = service.showAsync('Deleted', '1 item', InfoType.INFO, 0, {
+      actions,
+    });
+    service.dismiss();
+
+    await expect(second).resolves.toBe('suppressed');
+    await expect(first).resolves.toBe('dismissed');
+  });
+});
+
+describe('WebInfoService flash persistence', () => {
+  const FLASH_KEY = 'sudobility.info.flash';
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('saves banners shown with persist until they close', async () => {
+    const { data, storage } = memoryStorage();
+    const service = new WebInfoService({ flashStorage: storage });
+
+    const id = service.show('Saved', 'Redirecting', InfoType.SUCCESS, 3000, {
+      persist: true,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(JSON.parse(data.get(FLASH_KEY) as string)).toEqual([
+      {
+        title: 'Saved',
+        description: 'Redirecting',
+        variant: InfoType.SUCCESS,
+        duration: 3000,
+        savedAt: Date.now(),
+      },
+    ]);
+
+    service.dismiss(id);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(data.has(FLASH_KEY)).toBe(false);
+  });
+
+  it('does not save banners without persist', async () => {
+    const { storage } = memoryStorage();
+    const service = new WebInfoService({ flashStorage: storage });
+
+    service.show('Saved', 'Message', InfoType.SUCCESS);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(storage.setItem).not.toHaveBeenCalled();
+  });
+
+  it('restores persisted banners on the next page load', async () => {
+    const { data, storage } = memoryStorage({
+      [FLASH_KEY]: JSON.stringify([
+        {
+          title: 'Saved',
+          description: 'Redirected',
+          variant: InfoType.SUCCESS,
+          savedAt: Date.now() - 1000,
+        },
+      ]),
+    });
+    const service = new WebInfoService({ flashStorage: storage });
+
+    await expect(service.restorePersisted()).resolves.toBe(1);
+
+    expect(service.getState().title).toBe('Saved');
+    // Still pending until the restored banner closes
+    expect(data.has(FLASH_KEY)).toBe(true);
+
+    service.dismiss();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(data.has(FLASH_KEY)).toBe(false);
+  });
+
+  it('drops stale and malformed entries', async () => {
+    const { data, storage } = memoryStorage({
+      [FLASH_KEY]: JSON.stringify([
+        {
+          title: 'Old',
+          description: 'Message',
+          variant: InfoType.INFO,
+          savedAt: Date.now() - 10 * 60 * 1000,
+        },
+        { title: 'Broken' },
+      ]),
+    });
+    const service = new WebInfoService({ flashStorage: storage });
+
+    await expect(service.restorePersisted()).resolves.toBe(0);
+
+    expect(service.getState().isVisible).toBe(false);
+    expect(data.has(FLASH_KEY)).toBe(false);
+  });
+
+  it('survives unreadable storage', async () => {
+    const { storage } = memoryStorage({ [FLASH_KEY]: 'not json' });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const service = new WebInfoService({ flashStorage: storage });
+
+    await expect(service.restorePersisted()).resolves.toBe(0);
+    expect(warn).toHaveBeenCalled();
+
+    warn.mockRestore();
+  });
+
+  it('keeps the banners of services sharing a storage apart', async () => {
+    const { storage } = memoryStorage();
+    const first = new WebInfoService({
+      flashStorage: storage,
+      flashStorageKey: 'app.flash.a',
+    });
+    const second = new WebInfoService({
+      flashStorage: storage,
+      flashStorageKey: 'app.flash.b',
+    });
+
+    first.show('A', 'Message', InfoType.INFO, undefined, { persist: true });
+    second.show('B', 'Message', InfoType.INFO, undefined, { persist: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const nextFirst = new WebInfoService({
+      flashStorage: storage,
+      flashStorageKey: 'app.flash.a',
+    });
+    const nextSecond = new WebInfoService({
+      flashStorage: storage,
+      flashStorageKey: 'app.flash.b',
+    });
+    await expect(nextFirst.restorePersisted()).resolves.toBe(1);
+    await expect(nextSecond.restorePersisted()).resolves.toBe(1);
+    expect(nextFirst.getState().title).toBe('A');
+    expect(nextSecond.getState().title).toBe('B');
+  });
+
+  it('ignores persist when flash storage is disabled', async () => {
+    const service = new WebInfoService({ flashStorage: null });
+
+    service.show('Saved', 'Message', InfoType.SUCCESS, undefined, {
+      persist: true,
+    });
+
+    await expect(service.restorePersisted()).resolves.toBe(0);
+  });
+});
+
+describe('WebInfoService broadcast', () => {
+  const services: WebInfoService[] = [];
+  let channelName: string;
+
+  /** Create a service joined to this test's channel. */
+  function createTab(broadcast: { all?: boolean } = {}) {
+    const service = new WebInfoService({
+      flashStorage: null,
+      broadcast: { channelName, ...broadcast },
+    });
+    services.push(service);
+    return service;
+  }
+
+  beforeEach(() => {
+    channelName = `info-test-${Math.random().toString(36).slice(2)}`;
+  });
+
+  afterEach(() => {
+    services.splice(0).forEach((service) => service.destroy());
+  });
+
+  it('mirrors banners to other tabs', async () => {
+    const origin = createTab();
+    const other = createTab();
+
+    origin.show('Signed out', 'Message', InfoType.INFO, 3000);
+
+    await vi.waitFor(() => {
+      expect(other.getState().title).toBe('Signed out');
+    });
+    expect(other.getState().duration).toBe(3000);
+    expect(origin.getState().items).toHaveLength(1);
+  });
+
+  it('dismisses mirrored banners in every tab', async () => {
+    const origin = createTab();
+    const other = createTab();
+
+    origin.show('Signed out', 'Message', InfoType.INFO);
+    await vi.waitFor(() => {
+      expect(other.getState().isVisible).toBe(true);
+    });
+
+    other.dismiss();
+
+    await vi.waitFor(() => {
+      expect(origin.getState().isVisible).toBe(false);
+    });
+  });
+
+  it('does not echo received banners back', async () => {
+    const origin = createTab();
+    const other = createTab();
+    const third = createTab();
+
+    origin.show('Signed out', 'Message', InfoType.INFO);
+    await vi.waitFor(() => {
+      expect(other.getState().isVisible).toBe(true);
+      expect(third.getState().isVisible).toBe(true);
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(origin.getState().items).toHaveLength(1);
+    expect(other.getState().items).toHaveLength(1);
+    expect(third.getState().items).toHaveLength(1);
+  });
+
+  it('only mirrors opted-in banners when all is false', async () => {
+    const origin = createTab({ all: false });
+    const other = createTab();
+
+    origin.show('Local', 'Message', InfoType.INFO);
+    origin.show('Shared', 'Message', InfoType.INFO, undefined, {
+      broadcast: true,
+    });
+
+    await vi.waitFor(() => {
+      expect(other.getState().isVisible).toBe(true);
+    });
+    expect(other.getState().items.map((item) => item.title)).toEqual([
+      'Shared',
+    ]);
+  });
+
+  it('keeps banners local when broadcast is off for the message', async () => {
+    const origin = createTab();
+    const other = createTab();
+
+    origin.show('Local', 'Message', InfoType.INFO, undefined, {
+      broadcast: false,
+    });
+    origin.show('Shared', 'Message', InfoType.INFO);
+
+    await vi.waitFor(() => {
+      expect(other.getState().isVisible).toBe(true);
+    });
+    expect(other.getState().items.map((item) => item.title)).toEqual([
+      'Shared',
+    ]);
+  });
+});
+
+describe('WebInfoService translation', () => {
+  afterEach(() => {
+    setInfoTranslator(null);
+  });
+
+  it('resolves keys through the registered translator', () => {
+    setInfoTranslator(
+      (key, params) => `${key.toUpperCase()} ${String(params?.name ?? '')}`
+    );
+    const service = new WebInfoService({ flashStorage: null });
+
+    service.show('saved.title', 'saved.body', InfoType.SUCCESS, undefined, {
+      translate: true,
+      params: { name: 'Report' },
+    });
+
+    expect(service.getState().title).toBe('SAVED.TITLE Report');
+    expect(service.getState().description).toBe('SAVED.BODY Report');
+    expect(service.getHistory()[0]?.title).toBe('SAVED.TITLE Report');
+  });
+
+  it('prefers the translator passed to the service', () => {
+    setInfoTranslator(() => 'global');
+    const service = new WebInfoService({
+      flashStorage: null,
+      translator: () => 'local',
+    });
+
+    service.show('key', '', InfoType.INFO, undefined, { translate: true });
+
+    expect(service.getState().title).toBe('local');
+    expect(service.getState().description).toBe('');
+  });
+
+  it('interpolates params into untranslated keys', () => {
+    const service = new WebInfoService({ flashStorage: null });
+
+    service.show(
+      'Deleted {{count}} files',
+      'From {{ folder }}',
+      InfoType.INFO,
+      undefined,
+      {
+        translate: true,
+        params: { count: 3, folder: 'Inbox' },
+      }
+    );
+
+    expect(service.getState().title).toBe('Deleted 3 files');
+    expect(service.getState().description).toBe('From Inbox');
+  });
+
+  it('leaves placeholders without an own param untouched', () => {
+    const service = new WebInfoService({ flashStorage: null });
+
+    service.show('Hi {{constructor}}', '{{name}}', InfoType.INFO, undefined, {
+      translate: true,
+      params: { name: 'Ada' },
+    });
+
+    expect(service.getState().title).toBe('Hi {{constructor}}');
+    expect(service.getState().description).toBe('Ada');
+  });
+
+  it('leaves strings alone without translate', () => {
+    setInfoTranslator(() => 'translated');
+    const service = new WebInfoService({ flashStorage: null });
+
+    service.show('Plain', 'Text', InfoType.INFO);
+
+    expect(service.getState().title).toBe('Plain');
+  });
+
+  it('coalesces repeats by their translated text', () => {
+    setInfoTranslator((key) => `t:${key}`);
+    const service = new WebInfoService({ flashStorage: null });
+
+    const first = service.show('error', '', InfoType.ERROR, undefined, {
+      translate: true,
+    });
+    const second = service.show('error', '', InfoType.ERROR, undefined, {
+      translate: true,
+    });
+
+    expect(second).toBe(first);
+    expect(service.getState().items[0]?.count).toBe(2);
+  });
+
+  it('keeps rich content and the markdown flag on the item', () => {
+    const service = new WebInfoService({ flashStorage: null });
+    const content = ['Rich ', 'content'];
+
+    service.show('Title', 'See [docs](/docs)', InfoType.INFO, undefined, {
+      content,
+    });
+    service.show('Other', 'See **this**', InfoType.INFO, undefined, {
+      markdown: true,
+    });
+
+    const [rich, markdown] = service.getState().items;
+    expect(rich?.content).toBe(content);
+    expect(markdown?.markdown).toBe(true);
+    expect(markdown?.content).toBeUndefined();
+  });
+});
+
+describe('createWebInfoService', () => {
+  it('creates a WebInfoService instance', () => {
+    const service = createWebInfoService();
+    expect(service).toBeInstanceOf(WebInfoService);
+  });
+
+  it('passes options to the service', () => {
+    const service = createWebInfoService({ maxVisible: 1 });
+
+    service.show('One', 'Message', InfoType.INFO);
+    service.show('Two', 'Message', InfoType.INFO);
+
+    expect(service.getState().items).toHaveLength(1);
+    expect(service.getState().queue).toHaveLength(1);
+  });
+});
+
+describe('singleton functions', () => {
+  afterEach(() => {
+    resetInfoService();
+  });
+
+  it('initializeInfoService creates a service', () => {
+    initializeInfoService();
+    const service = getInfoService();
+    expect(service).toBeInstanceOf(WebInfoService);
+  });
+
+  it('initializeInfoService accepts custom service', () => {
+    const customService = new WebInfoService();
+    initializeInfoService(customService);
+    expect(getInfoService()).toBe(customService);
+  });
+
+  it('initializeInfoService does not overwrite existing service', () => {
+    const firstService = new WebInfoService();
+    const secondService = new WebInfoService();
+
+    initializeInfoService(firstService);
+    initializeInfoService(secondService);
+
+    expect(getInfoService()).toBe(firstService);
+  });
+
+  it('getInfoService throws if not initialized', () => {
+    expect(() => getInfoService()).toThrow(
+      'Info service not initialized. Call initializeInfoService() at app startup.'
+    );
+  });
+
+  it('initializeInfoService restores persisted banners', async () => {
+    const service = new WebInfoService({ flashStorage: null });
+    const restore = vi.spyOn(service, 'restorePersisted');
+
+    initializeInfoService(service);
+
+    expect(restore).toHaveBeenCalledOnce();
   });
 
   it('resetInfoService clears the singleton', () => {
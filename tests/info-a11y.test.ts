@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { InfoType } from '@sudobility/types';
+import {
+  getInfoPoliteness,
+  formatInfoAnnouncement,
+  matchesShortcut,
+  prefersReducedMotion,
+} from '../src/info/a11y.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Build the subset of a KeyboardEvent that matchesShortcut reads. */
+function keyEvent(key: string, modifiers: Partial<KeyboardEvent> = {}) {
+  return {
+    key,
+    code: '',
+    altKey: false,
+    ctrlKey: false,
+    metaKey: false,
+    shiftKey: false,
+    ...modifiers,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('getInfoPoliteness', () => {
+  it('announces errors and warnings assertively', () => {
+    expect(getInfoPoliteness(InfoType.ERROR)).toBe('assertive');
+    expect(getInfoPoliteness(InfoType.WARNING)).toBe('assertive');
+  });
+
+  it('announces info and success politely', () => {
+    expect(getInfoPoliteness(InfoType.INFO)).toBe('polite');
+    expect(getInfoPoliteness(InfoType.SUCCESS)).toBe('polite');
+  });
+});
+
+describe('formatInfoAnnouncement', () => {
+  it('joins title and description', () => {
+    expect(
+      formatInfoAnnouncement({ title: 'Saved', description: 'All done' })
+    ).toBe('Saved. All done');
+  });
+
+  it('skips empty parts', () => {
+    expect(formatInfoAnnouncement({ title: 'Saved', description: '' })).toBe(
+      'Saved'
+    );
+  });
+
+  it('lists available actions', () => {
+    expect(
+      formatInfoAnnouncement({
+        title: 'Deleted',
+        description: '1 item',
+        actions: [
+          { label: 'Undo', handler: vi.fn() },
+          { label: 'View', handler: vi.fn() },
+        ],
+      })
+    ).toBe('Deleted. 1 item. Actions: Undo, View');
+  });
+
+  it('announces markdown descriptions as plain text', () => {
+    expect(
+      formatInfoAnnouncement({
+        title: 'Saved',
+        description: 'Open the [report](/r) **now**',
+        markdown: true,
+      })
+    ).toBe('Saved. Open the report now');
+  });
+});
+
+describe('matchesShortcut', () => {
+  it('matches a plain key', () => {
+    expect(matchesShortcut(keyEvent('Escape'), 'Escape')).toBe(true);
+    expect(matchesShortcut(keyEvent('Enter'), 'Escape')).toBe(false);
+  });
+
+  it('matches modifiers exactly', () => {
+    expect(matchesShortcut(keyEvent('n', { altKey: true }), 'Alt+N')).toBe(
+      true
+    );
+    expect(matchesShortcut(keyEvent('n'), 'Alt+N')).toBe(false);
+    expect(
+      matchesShortcut(keyEvent('N', { altKey: true, shiftKey: true }), 'Alt+N')
+    ).toBe(false);
+    expect(
+      matchesShortcut(
+        keyEvent('N', { altKey: true, shiftKey: true }),
+        'Alt+Shift+N'
+      )
+    ).toBe(true);
+  });
+
+  it('matches letters and digits on the physical key', () => {
+    // Option+N on macOS produces a dead key instead of "n"
+    expect(
+      matchesShortcut(keyEvent('Dead', { code: 'KeyN', altKey: true }), 'Alt+N')
+    ).toBe(true);
+    expect(
+      matchesShortcut(keyEvent('n', { code: 'KeyM', altKey: true }), 'Alt+N')
+    ).toBe(false);
+    expect(
+      matchesShortcut(keyEvent('¡', { code: 'Digit1', altKey: true }), 'Alt+1')
+    ).toBe(true);
+    expect(
+      matchesShortcut(keyEvent('Escape', { code: 'Escape' }), 'Escape')
+    ).toBe(true);
+  });
+
+  it('rejects an empty shortcut', () => {
+    expect(matchesShortcut(keyEvent('a'), '')).toBe(false);
+  });
+});
+
+describe('prefersReducedMotion', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('honours explicit modes', () => {
+    expect(prefersReducedMotion('always')).toBe(true);
+    expect(prefersReducedMotion('never')).toBe(false);
+  });
+
+  it('follows the media query in user mode', () => {
+    vi.stubGlobal(
+      'matchMedia',
+      vi.fn(() => ({ matches: true }))
+    );
+    expect(prefersReducedMotion('user')).toBe(true);
+  });
+
+  it('returns false when matchMedia is unavailable', () => {
+    vi.stubGlobal('matchMedia', undefined);
+    expect(prefersReducedMotion()).toBe(false);
+  });
+});
@@ -0,0 +1,389 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock @sudobility/di to avoid broken import chain in tests
+vi.mock('@sudobility/di', () => ({
+  initializeInfoService: vi.fn(),
+}));
+
+// Render a plain element instead of the design-system Banner
+vi.mock('@sudobility/components', async () => {
+  const { createElement } = await import('react');
+  return {
+    Banner: ({ title }: { title: string }) =>
+      createElement('p', { className: 'banner-title' }, title),
+  };
+});
+
+import { act, createElement, type ReactElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { InfoType } from '@sudobility/types';
+import { InfoBanner, useInfoBannerSelector } from '../src/info/InfoBanner.js';
+import { InfoServiceProvider } from '../src/info/InfoServiceProvider.js';
+import { WebInfoService, type BannerState } from '../src/info/info.web.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+(
+  globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+).IS_REACT_ACT_ENVIRONMENT = true;
+
+let root: Root | null = null;
+let container: HTMLDivElement | null = null;
+
+/** Render `element` under a provider for `service`, attached to the page. */
+function render(service: WebInfoService, element: ReactElement): HTMLElement {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+  act(() =>
+    root?.render(createElement(InfoServiceProvider, { service }, element))
+  );
+  return container;
+}
+
+/** Wrapper element of each rendered banner, in stack order. */
+function items(element: HTMLElement): HTMLElement[] {
+  return [...element.querySelectorAll<HTMLElement>('[data-placement] > div')];
+}
+
+function titles(element: HTMLElement): string[] {
+  return [...element.querySelectorAll('.banner-title')].map(
+    (title) => title.textContent ?? ''
+  );
+}
+
+function setDocumentHidden(hidden: boolean): void {
+  Object.defineProperty(document, 'hidden', {
+    configurable: true,
+    get: () => hidden,
+  });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+function buttons(element: HTMLElement): HTMLButtonElement[] {
+  return [...element.querySelectorAll<HTMLButtonElement>('button')];
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('InfoBanner', () => {
+  afterEach(() => {
+    act(() => root?.unmount());
+    container?.remove();
+    root = null;
+    container = null;
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('renders actions that share a label as separate buttons', () => {
+    const consoleError = vi.spyOn(console, 'error');
+    const first = vi.fn();
+    const second = vi.fn();
+    const service = new WebInfoService({ flashStorage: null });
+    const element = render(service, createElement(InfoBanner));
+
+    act(() => {
+      service.show('Saved', 'Two copies', InfoType.INFO, 0, {
+        actions: [
+          { label: 'Open', handler: first, dismiss: false },
+          { label: 'Open', handler: second, dismiss: false },
+        ],
+      });
+    });
+
+    const [, secondButton] = buttons(element);
+    act(() => secondButton?.click());
+
+    expect(buttons(element)).toHaveLength(2);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledOnce();
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it('applies the layout props to the stack', () => {
+    const service = new WebInfoService({ flashStorage: null });
+    const element = render(
+      service,
+      createElement(InfoBanner, {
+        placement: 'bottom-right',
+        stackDirection: 'newest-first',
+        maxWidth: 420,
+        transition: 'slide',
+        reducedMotion: 'always',
+        className: 'app-toasts',
+      })
+    );
+
+    act(() => {
+      service.show('First', 'Older', InfoType.INFO, 0);
+      service.show('Second', 'Newer', InfoType.INFO, 0);
+    });
+    const stack = element.querySelector<HTMLElement>('[data-placement]');
+
+    expect(stack?.dataset.placement).toBe('bottom-right');
+    expect(stack?.dataset.reducedMotion).toBe('true');
+    expect(stack?.style.maxWidth).toBe('420px');
+    expect(stack?.className).toContain('fixed bottom-4 right-4');
+    expect(stack?.className).toContain('[&_*]:!animate-none');
+    expect(stack?.className).toContain('app-toasts');
+    expect(titles(element)).toEqual(['Second', 'First']);
+    expect(items(element)[0]?.className).toContain('slide-in-from-bottom-2');
+  });
+
+  it('renders an inline stack without motion overrides by default', () => {
+    const service = new WebInfoService({ flashStorage: null });
+    const element = render(
+      service,
+      createElement(InfoBanner, { reducedMotion: 'never' })
+    );
+
+    act(() => {
+      service.show('First', 'Older', InfoType.INFO, 0);
+      service.show('Second', 'Newer', InfoType.INFO, 0);
+    });
+    const stack = element.querySelector<HTMLElement>('[data-placement]');
+
+    expect(stack?.dataset.placement).toBe('inline');
+    expect(stack?.hasAttribute('data-reduced-motion')).toBe(false);
+    expect(stack?.style.maxWidth).toBe('');
+    expect(titles(element)).toEqual(['First', 'Second']);
+    expect(items(element)[0]?.className).toBe('');
+  });
+
+  describe('auto-dismiss', () => {
+    function showTimed(service: WebInfoService): void {
+      act(() => {
+        service.show('Saved', 'All changes saved', InfoType.INFO, 1000);
+      });
+    }
+
+    it('pauses while a banner is hovered', () => {
+      vi.useFakeTimers();
+      const service = new WebInfoService({ flashStorage: null });
+      const element = render(service, createElement(InfoBanner));
+      showTimed(service);
+      const [item] = items(element);
+
+      act(() => {
+        vi.advanceTimersByTime(600);
+        item?.dispatchEvent(
+          new MouseEvent('mouseover', {
+            bubbles: true,
+            relatedTarget: document.body,
+          })
+        );
+        vi.advanceTimersByTime(1000);
+      });
+      expect(titles(element)).toEqual(['Saved']);
+
+      act(() => {
+        item?.dispatchEvent(
+          new MouseEvent('mouseout', {
+            bubbles: true,
+            relatedTarget: document.body,
+          })
+        );
+        vi.advanceTimersByTime(399);
+      });
+      expect(titles(element)).toEqual(['Saved']);
+
+      act(() => vi.advanceTimersByTime(1));
+      expect(titles(element)).toEqual([]);
+    });
+
+    it('pauses while focus is inside a banner', () => {
+      vi.useFakeTimers();
+      const service = new WebInfoService({ flashStorage: null });
+      const element = render(service, createElement(InfoBanner));
+      showTimed(service);
+      const [item] = items(element);
+
+      act(() => {
+        item?.focus();
+        vi.advanceTimersByTime(2000);
+      });
+      expect(titles(element)).toEqual(['Saved']);
+
+      act(() => {
+        item?.blur();
+        vi.advanceTimersByTime(1000);
+      });
+      expect(titles(element)).toEqual([]);
+    });
+
+    it('pauses while the tab is hidden', () => {
+      vi.useFakeTimers();
+      const service = new WebInfoService({ flashStorage: null });
+      const element = render(service, createElement(InfoBanner));
+      showTimed(service);
+
+      try {
+        act(() => {
+          vi.advanceTimersByTime(600);
+          setDocumentHidden(true);
+          vi.advanceTimersByTime(5000);
+        });
+        expect(titles(element)).toEqual(['Saved']);
+
+        act(() => {
+          setDocumentHidden(false);
+          vi.advanceTimersByTime(400);
+        });
+        expect(titles(element)).toEqual([]);
+      } finally {
+        delete (document as { hidden?: boolean }).hidden;
+      }
+    });
+  });
+
+  describe('keyboard', () => {
+    function press(target: EventTarget, init: KeyboardEventInit): void {
+      act(() => {
+        target.dispatchEvent(
+          new KeyboardEvent('keydown', { bubbles: true, ...init })
+        );
+      });
+    }
+
+    it('moves focus to the banner on the shortcut and back on dismiss', () => {
+      const service = new WebInfoService({ flashStorage: null });
+      const element = render(service, createElement(InfoBanner));
+      const input = document.createElement('input');
+      document.body.appendChild(input);
+      input.focus();
+
+      act(() => {
+        service.show('Deleted', '1 item', InfoType.INFO, 0, {
+          actions: [{ label: 'Undo', handler: vi.fn() }],
+        });
+      });
+
+      // Option+N on macOS reports a dead key, so only the code says "N"
+      press(input, { key: 'Dead', code: 'KeyN', altKey: true });
+      expect(document.activeElement).toBe(buttons(element)[0]);
+
+      press(document.activeElement ?? document, {
+        key: 'Escape',
+        code: 'Escape',
+      });
+      expect(titles(element)).toEqual([]);
+      expect(document.activeElement).toBe(input);
+      input.remove();
+    });
+
+    it('ignores the shortcut when it is disabled', () => {
+      const service = new WebInfoService({ flashStorage: null });
+      const element = render(
+        service,
+        createElement(InfoBanner, { focusShortcut: false })
+      );
+      act(() => {
+        service.show('Deleted', '1 item', InfoType.INFO, 0, {
+          actions: [{ label: 'Undo', handler: vi.fn() }],
+        });
+      });
+
+      press(document.body, { key: 'n', code: 'KeyN', altKey: true });
+      expect(document.activeElement).not.toBe(buttons(element)[0]);
+    });
+  });
+});
+
+describe('useInfoBannerSelector', () => {
+  /** Values rendered by the probe, one per render. */
+  let renders: unknown[] = [];
+
+  function SelectorProbe<T>({
+    selector,
+    isEqual,
+  }: {
+    selector: (state: BannerState) => T;
+    isEqual?: (a: T, b: T) => boolean;
+  }): null {
+    renders.push(useInfoBannerSelector(selector, isEqual));
+    return null;
+  }
+
+  const sameTitles = (a: string[], b: string[]) =>
+    a.length === b.length && a.every((title, index) => title === b[index]);
+
+  beforeEach(() => {
+    renders = [];
+  });
+
+  afterEach(() => {
+    act(() => root?.unmount());
+    container?.remove();
+    root = null;
+    container = null;
+  });
+
+  it('re-renders only when the selected value changes', () => {
+    const service = new WebInfoService({ flashStorage: null, maxVisible: 1 });
+    render(
+      service,
+      createElement(SelectorProbe<number>, {
+        selector: (state) => state.items.length,
+      })
+    );
+
+    act(() => {
+      service.show('First', 'Visible', InfoType.INFO, 0);
+    });
+    // Queued behind the first banner, so the visible count stays the same
+    act(() => {
+      service.show('Second', 'Queued', InfoType.INFO, 0);
+    });
+
+    expect(service.getState().queue).toHaveLength(1);
+    expect(renders).toEqual([0, 1]);
+  });
+
+  it('keeps the previous selection while isEqual holds', () => {
+    const service = new WebInfoService({ flashStorage: null, maxVisible: 1 });
+    render(
+      service,
+      createElement(SelectorProbe<string[]>, {
+        selector: (state) => state.items.map((item) => item.title),
+        isEqual: sameTitles,
+      })
+    );
+
+    act(() => {
+      service.show('First', 'Visible', InfoType.INFO, 0);
+    });
+    act(() => {
+      service.show('Second', 'Queued', InfoType.INFO, 0);
+    });
+    act(() => {
+      service.dismiss();
+    });
+
+    // The queued banner produced a new, equal array without a render
+    expect(renders).toEqual([[], ['First'], ['Second']]);
+  });
+
+  it('selects from the empty state when rendering on the server', () => {
+    const service = new WebInfoService({ flashStorage: null });
+    service.show('Saved', 'All changes saved', InfoType.INFO, 0);
+
+    renderToString(
+      createElement(
+        InfoServiceProvider,
+        { service },
+        createElement(SelectorProbe<number>, {
+          selector: (state) => state.items.length,
+        })
+      )
+    );
+
+    expect(service.getState().items).toHaveLength(1);
+    expect(renders).toEqual([0]);
+  });
+});
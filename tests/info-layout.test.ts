@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { InfoType } from '@sudobility/types';
+import type { InfoItem } from '../src/info/info.web.js';
+import {
+  getInfoContainerClassName,
+  getInfoTransitionClassName,
+  orderInfoItems,
+} from '../src/info/layout.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Build a minimal visible banner. */
+function item(id: string): InfoItem {
+  return { id, title: id, description: '', variant: InfoType.INFO };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('getInfoContainerClassName', () => {
+  it('keeps inline stacks in the document flow', () => {
+    expect(getInfoContainerClassName('inline', false)).toBe(
+      'flex flex-col gap-2'
+    );
+  });
+
+  it('pins other placements to the viewport', () => {
+    expect(getInfoContainerClassName('top', false)).toContain('fixed');
+    expect(getInfoContainerClassName('bottom-right', false)).toContain(
+      'bottom-4 right-4'
+    );
+  });
+
+  it('turns animations off when motion is reduced', () => {
+    expect(getInfoContainerClassName('inline', true)).toContain(
+      '[&_*]:!animate-none'
+    );
+  });
+});
+
+describe('getInfoTransitionClassName', () => {
+  it('adds nothing for none', () => {
+    expect(getInfoTransitionClassName('none', 'top')).toBe('');
+  });
+
+  it('slides in from the edge the stack is pinned to', () => {
+    expect(getInfoTransitionClassName('slide', 'top-left')).toContain(
+      'slide-in-from-top-2'
+    );
+    expect(getInfoTransitionClassName('slide', 'bottom')).toContain(
+      'slide-in-from-bottom-2'
+    );
+  });
+
+  it('uses custom strings as class names', () => {
+    expect(getInfoTransitionClassName('my-enter', 'inline')).toBe('my-enter');
+  });
+});
+
+describe('orderInfoItems', () => {
+  it('keeps the oldest banner first', () => {
+    const items = [item('a'), item('b')];
+
+    expect(orderInfoItems(items, 'oldest-first')).toBe(items);
+  });
+
+  it('puts the newest banner first without mutating the state', () => {
+    const items = [item('a'), item('b')];
+
+    expect(orderInfoItems(items, 'newest-first').map((i) => i.id)).toEqual([
+      'b',
+      'a',
+    ]);
+    expect(items.map((i) => i.id)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { isValidElement, type ReactElement } from 'react';
+import {
+  infoMarkdownToText,
+  isSafeHref,
+  renderInfoMarkdown,
+} from '../src/info/markdown.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type Element = ReactElement<{ href?: string; children?: unknown }>;
+
+/** Render and return the nodes that are elements. */
+function elementsOf(text: string): Element[] {
+  return renderInfoMarkdown(text).filter(isValidElement) as Element[];
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('renderInfoMarkdown', () => {
+  it('returns plain text unchanged', () => {
+    expect(renderInfoMarkdown('Just text')).toEqual(['Just text']);
+  });
+
+  it('renders links, emphasis and code', () => {
+    const nodes = renderInfoMarkdown(
+      'Read [the docs](https://example.com), **now** or *later* with `npm`'
+    );
+    const elements = nodes.filter(isValidElement) as Element[];
+
+    expect(elements.map((element) => element.type)).toEqual([
+      'a',
+      'strong',
+      'em',
+      'code',
+    ]);
+    expect(elements[0]?.props.href).toBe('https://example.com');
+    expect(elements[0]?.props.children).toBe('the docs');
+    expect(nodes[0]).toBe('Read ');
+  });
+
+  it('supports underscore emphasis', () => {
+    const [element] = elementsOf('An _important_ note');
+
+    expect(element?.type).toBe('em');
+    expect(element?.props.children).toBe('important');
+  });
+
+  it('renders unsafe links as their label', () => {
+    const nodes = renderInfoMarkdown('[click](javascript:alert(1))');
+
+    expect(nodes.some(isValidElement)).toBe(false);
+    expect(nodes.join('')).toContain('click');
+  });
+
+  it('never renders HTML', () => {
+    const nodes = renderInfoMarkdown('<img src=x onerror=alert(1)>');
+
+    expect(nodes).toEqual(['<img src=x onerror=alert(1)>']);
+  });
+});
+
+describe('isSafeHref', () => {
+  it('allows http(s), mailto, paths and fragments', () => {
+    expect(isSafeHref('https://example.com')).toBe(true);
+    expect(isSafeHref('mailto:help@example.com')).toBe(true);
+    expect(isSafeHref('/settings')).toBe(true);
+    expect(isSafeHref('#details')).toBe(true);
+  });
+
+  it('rejects scripts and protocol-relative urls', () => {
+    expect(isSafeHref('javascript:alert(1)')).toBe(false);
+    expect(isSafeHref('data:text/html,hi')).toBe(false);
+    expect(isSafeHref('//evil.example')).toBe(false);
+  });
+
+  it('rejects paths that browsers resolve to another site', () => {
+    expect(isSafeHref('/\\evil.example')).toBe(false);
+    expect(isSafeHref('/\t/evil.example')).toBe(false);
+    expect(isSafeHref('/settings?next=//evil.example')).toBe(true);
+  });
+});
+
+describe('infoMarkdownToText', () => {
+  it('strips markers and link targets', () => {
+    expect(
+      infoMarkdownToText('See [docs](/docs), **bold**, _em_ and `code`')
+    ).toBe('See docs, bold, em and code');
+  });
+});
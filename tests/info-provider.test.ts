@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock @sudobility/di to avoid broken import chain in tests
+vi.mock('@sudobility/di', () => ({
+  initializeInfoService: vi.fn(),
+}));
+
+import { StrictMode, act, createElement, type ReactElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { InfoType } from '@sudobility/types';
+import {
+  InfoServiceProvider,
+  useInfoService,
+} from '../src/info/InfoServiceProvider.js';
+import {
+  WebInfoService,
+  initializeInfoService,
+  resetInfoService,
+} from '../src/info/info.web.js';
+import { memoryStorage } from './helpers/storage.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+(
+  globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+).IS_REACT_ACT_ENVIRONMENT = true;
+
+/** Services returned by useInfoService(), latest render last. */
+let seen: WebInfoService[] = [];
+
+function Probe(): null {
+  seen.push(useInfoService());
+  return null;
+}
+
+let root: Root | null = null;
+
+function render(element: ReactElement): void {
+  root = createRoot(document.createElement('div'));
+  act(() => root?.render(element));
+}
+
+function unmount(): void {
+  act(() => root?.unmount());
+  root = null;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('InfoServiceProvider', () => {
+  beforeEach(() => {
+    seen = [];
+  });
+
+  afterEach(() => {
+    if (root) {
+      unmount();
+    }
+    resetInfoService();
+    vi.restoreAllMocks();
+  });
+
+  it('provides a service of its own', () => {
+    const singleton = new WebInfoService({ flashStorage: null });
+    initializeInfoService(singleton);
+
+    render(
+      createElement(
+        InfoServiceProvider,
+        { options: { flashStorage: null, maxVisible: 1 } },
+        createElement(Probe)
+      )
+    );
+
+    const service = seen.at(-1);
+    expect(service).toBeInstanceOf(WebInfoService);
+    expect(service).not.toBe(singleton);
+    service?.show('A', '', InfoType.INFO);
+    service?.show('B', '', InfoType.INFO);
+    expect(service?.getState().items).toHaveLength(1);
+  });
+
+  it('provides the given service and leaves it to its owner', () => {
+    const service = new WebInfoService({ flashStorage: null });
+    const destroy = vi.spyOn(service, 'destroy');
+
+    render(
+      createElement(InfoServiceProvider, { service }, createElement(Probe))
+    );
+    unmount();
+
+    expect(seen.at(-1)).toBe(service);
+    expect(destroy).not.toHaveBeenCalled();
+  });
+
+  it('destroys its own service on unmount', () => {
+    const destroy = vi.spyOn(WebInfoService.prototype, 'destroy');
+
+    render(
+      createElement(
+        InfoServiceProvider,
+        { options: { flashStorage: null } },
+        createElement(Probe)
+      )
+    );
+    expect(destroy).not.toHaveBeenCalled();
+
+    unmount();
+    expect(destroy).toHaveBeenCalledOnce();
+  });
+
+  it('shows the flash banners persisted for its service', async () => {
+    const { storage } = memoryStorage({
+      'sudobility.info.flash': JSON.stringify([
+        {
+          title: 'Saved',
+          description: 'Redirected',
+          variant: InfoType.SUCCESS,
+          savedAt: Date.now(),
+        },
+      ]),
+    });
+
+    render(
+      createElement(
+        InfoServiceProvider,
+        { options: { flashStorage: storage } },
+        createElement(Probe)
+      )
+    );
+    await act(async () => {});
+
+    expect(seen.at(-1)?.getState().title).toBe('Saved');
+  });
+
+  it('replaces a service destroyed by a StrictMode remount', () => {
+    const destroy = vi.spyOn(WebInfoService.prototype, 'destroy');
+
+    render(
+      createElement(
+        StrictMode,
+        null,
+        createElement(
+          InfoServiceProvider,
+          { options: { flashStorage: null } },
+          createElement(Probe)
+        )
+      )
+    );
+
+    const service = seen.at(-1);
+    expect(service).toBeInstanceOf(WebInfoService);
+    expect(destroy).toHaveBeenCalledOnce();
+    expect(destroy.mock.contexts).not.toContain(service);
+  });
+});
+
+describe('useInfoService', () => {
+  beforeEach(() => {
+    seen = [];
+  });
+
+  afterEach(() => {
+    if (root) {
+      unmount();
+    }
+    resetInfoService();
+  });
+
+  it('falls back to the singleton outside a provider', () => {
+    const singleton = new WebInfoService({ flashStorage: null });
+    initializeInfoService(singleton);
+
+    render(createElement(Probe));
+
+    expect(seen.at(-1)).toBe(singleton);
+  });
+
+  it('throws without a provider or singleton', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => render(createElement(Probe))).toThrow(
+      'Info service not initialized'
+    );
+
+    error.mockRestore();
+  });
+});
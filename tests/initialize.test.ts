@@ -5,19 +5,41 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 // ---------------------------------------------------------------------------
 
 const mockAnalyticsService = {
+  trackEvent: vi.fn(),
+  trackPageView: vi.fn(),
+  setUserId: vi.fn(),
+  setUserProperties: vi.fn(),
+};
+
+const mockFirebaseAnalytics = {
   logEvent: vi.fn(),
   setUserId: vi.fn(),
   setUserProperties: vi.fn(),
+  isSupported: vi.fn(() => true),
+};
+
+const mockMessaging = { deleteToken: vi.fn() };
+
+const mockStorageService = {
+  getItem: vi.fn(),
+  setItem: vi.fn(),
+  removeItem: vi.fn(),
 };
 
 // Mock @sudobility/di/web (subpath export)
 vi.mock('@sudobility/di/web', () => ({
   initializeStorageService: vi.fn(),
+  getStorageService: vi.fn(() => mockStorageService),
   initializeFirebaseService: vi.fn(),
+  getFirebaseService: vi.fn(() => ({
+    analytics: mockFirebaseAnalytics,
+    messaging: mockMessaging,
+  })),
   initializeFirebaseAnalytics: vi.fn(() => mockAnalyticsService),
   initializeNetworkService: vi.fn(),
   getAnalyticsService: vi.fn(() => mockAnalyticsService),
   resetAnalyticsService: vi.fn(),
+  resetFirebaseService: vi.fn(),
   FirebaseAnalyticsService: vi.fn(),
 }));
 
@@ -31,48 +53,99 @@ vi.mock('@sudobility/di/info', () => ({
 vi.mock('@sudobility/di', () => ({
   initializeInfoService: vi.fn(),
   initializeStorageService: vi.fn(),
+  getStorageService: vi.fn(() => mockStorageService),
   initializeFirebaseService: vi.fn(),
+  getFirebaseService: vi.fn(() => ({
+    analytics: mockFirebaseAnalytics,
+    messaging: mockMessaging,
+  })),
   initializeFirebaseAnalytics: vi.fn(() => mockAnalyticsService),
   initializeNetworkService: vi.fn(),
   getAnalyticsService: vi.fn(() => mockAnalyticsService),
   resetAnalyticsService: vi.fn(),
+  resetFirebaseService: vi.fn(),
   FirebaseAnalyticsService: vi.fn(),
 }));
 
 // Mock the local info service
 vi.mock('../src/info/index.js', () => ({
   initializeInfoService: vi.fn(),
+  createWebInfoService: vi.fn((options: unknown) => ({ options })),
+  resetInfoService: vi.fn(),
+  setInfoTranslator: vi.fn(),
 }));
 
 // Mock the service worker register module
 vi.mock('../src/sw/register.js', () => ({
   registerServiceWorker: vi.fn(),
+  stopServiceWorkerUpdateChecks: vi.fn(),
 }));
 
 // Mock subscription_lib (dynamically imported)
 const mockConfigureAdapter = vi.fn();
 const mockInitSubscription = vi.fn();
 const mockCreateAdapter = vi.fn(() => ({ type: 'revenuecat' }));
+const mockSetUser = vi.fn();
+const mockClearUser = vi.fn();
+const mockResetSubscription = vi.fn();
 
 vi.mock('@sudobility/subscription_lib', () => ({
   configureRevenueCatAdapter: mockConfigureAdapter,
   initializeSubscription: mockInitSubscription,
   createRevenueCatAdapter: mockCreateAdapter,
+  setRevenueCatUser: mockSetUser,
+  clearRevenueCatUser: mockClearUser,
+  resetSubscription: mockResetSubscription,
 }));
 
 // ---------------------------------------------------------------------------
 // Imports (after mocks)
 // ---------------------------------------------------------------------------
 
-import { initializeWebApp } from '../src/initialize/initialize.js';
+import {
+  initializeWebApp,
+  initializeWebAppWithReport,
+  teardownWebApp,
+} from '../src/initialize/initialize.js';
 import {
   initializeStorageService,
   initializeFirebaseService,
   initializeFirebaseAnalytics,
   initializeNetworkService,
+  resetAnalyticsService,
+  resetFirebaseService,
 } from '@sudobility/di/web';
-import { initializeInfoService } from '../src/info/index.js';
-import { registerServiceWorker as registerSW } from '../src/sw/register.js';
+import {
+  createWebInfoService,
+  initializeInfoService,
+  resetInfoService,
+  setInfoTranslator,
+} from '../src/info/index.js';
+import { ConsentManager, getConsentManager } from '../src/consent/index.js';
+import {
+  getRevenueCatState,
+  identifyRevenueCatUser,
+  loadRevenueCat,
+  retryRevenueCat,
+  subscribeRevenueCat,
+  whenRevenueCatReady,
+} from '../src/initialize/revenuecat.js';
+import {
+  registerServiceWorker as registerSW,
+  stopServiceWorkerUpdateChecks,
+} from '../src/sw/register.js';
+import type { WebAppInitReport } from '../src/initialize/steps.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Stored value that arrives once `resolve` is called. */
+function deferredLoad() {
+  let resolve: (value: string | null) => void = () => {};
+  const promise = new Promise<string | null>((r) => (resolve = r));
+  return { promise, resolve };
+}
 
 // ---------------------------------------------------------------------------
 // Tests
@@ -88,9 +161,12 @@ describe('initializeWebApp', () => {
     appId: '1:123:web:abc',
   };
 
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.useFakeTimers();
+    await teardownWebApp();
     vi.clearAllMocks();
+    mockConfigureAdapter.mockReset();
+    localStorage.clear();
   });
 
   afterEach(() => {
@@ -127,6 +203,124 @@ describe('initializeWebApp', () => {
     ]);
   });
 
+  it('runs app steps after their dependencies', async () => {
+    const callOrder: string[] = [];
+    vi.mocked(initializeFirebaseService).mockImplementation(() => {
+      callOrder.push('firebase');
+    });
+
+    await initializeWebApp({
+      firebaseConfig,
+      steps: [
+        {
+          name: 'auth',
+          dependsOn: ['firebase'],
+          run: () => {
+            callOrder.push('auth');
+          },
+        },
+      ],
+    });
+
+    expect(callOrder).toEqual(['firebase', 'auth']);
+  });
+
+  it('lets app steps replace built-in steps', async () => {
+    const customNetwork = vi.fn();
+
+    await initializeWebApp({
+      firebaseConfig,
+      steps: [{ name: 'network', run: customNetwork }],
+    });
+
+    expect(customNetwork).toHaveBeenCalledOnce();
+    expect(initializeNetworkService).not.toHaveBeenCalled();
+  });
+
+  it('rejects steps depending on unknown steps', async () => {
+    await expect(
+      initializeWebApp({
+        firebaseConfig,
+        steps: [{ name: 'flags', dependsOn: ['remote'], run: vi.fn() }],
+      })
+    ).rejects.toThrow('depends on unknown step "remote"');
+  });
+
+  it('reports every built-in step', async () => {
+    const report = await initializeWebAppWithReport({ firebaseConfig });
+
+    expect(report.ok).toBe(true);
+    expect(report.steps.map((step) => [step.name, step.status])).toEqual([
+      ['storage', 'ok'],
+      ['consent', 'skipped'],
+      ['firebase', 'ok'],
+      ['analytics', 'ok'],
+      ['network', 'ok'],
+      ['info', 'ok'],
+      ['revenueCat', 'skipped'],
+      ['i18n', 'skipped'],
+      ['serviceWorker', 'skipped'],
+      ['webVitals', 'skipped'],
+      ['pageViews', 'skipped'],
+    ]);
+  });
+
+  it('throws from a failing step and still reports it', async () => {
+    const error = new Error('bad config');
+    vi.mocked(initializeFirebaseService).mockImplementationOnce(() => {
+      throw error;
+    });
+    const onReport = vi.fn();
+
+    await expect(initializeWebApp({ firebaseConfig, onReport })).rejects.toBe(
+      error
+    );
+    expect(onReport).toHaveBeenCalledOnce();
+    expect(initializeFirebaseAnalytics).not.toHaveBeenCalled();
+  });
+
+  it('continues in degraded mode with continueOnError', async () => {
+    const error = new Error('bad config');
+    vi.mocked(initializeFirebaseService).mockImplementationOnce(() => {
+      throw error;
+    });
+
+    const report = await initializeWebAppWithReport({
+      firebaseConfig,
+      continueOnError: true,
+    });
+
+    expect(report.ok).toBe(false);
+    expect(report.steps.find((step) => step.name === 'firebase')).toEqual(
+      expect.objectContaining({ status: 'failed', error })
+    );
+    expect(report.steps.find((step) => step.name === 'analytics')?.status).toBe(
+      'skipped'
+    );
+    expect(initializeInfoService).toHaveBeenCalledOnce();
+  });
+
+  it('rejects initializeWebApp when analytics did not start', async () => {
+    vi.mocked(initializeFirebaseService).mockImplementationOnce(() => {
+      throw new Error('bad config');
+    });
+
+    await expect(
+      initializeWebApp({ firebaseConfig, continueOnError: true })
+    ).rejects.toThrow('Analytics was not initialized (step skipped)');
+  });
+
+  it('persists flash banners through the storage service', async () => {
+    await initializeWebApp({ firebaseConfig });
+
+    expect(createWebInfoService).toHaveBeenCalledWith({
+      flashStorage: mockStorageService,
+    });
+    expect(initializeInfoService).toHaveBeenCalledWith({
+      options: { flashStorage: mockStorageService },
+    });
+  });
+
   it('returns the analytics service', async () => {
     const result = await initializeWebApp({ firebaseConfig });
     expect(result).toBeDefined();
@@ -270,6 +464,21 @@ describe('initializeWebApp', () => {
     expect(onError).toHaveBeenCalledWith(expect.any(Error));
   });
 
+  it('reports RevenueCat failures without failing initialization', async () => {
+    mockConfigureAdapter.mockImplementation(() => {
+      throw new Error('always fails');
+    });
+
+    const report = await initializeWebAppWithReport({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', maxRetries: 0 },
+    });
+
+    expect(
+      report.steps.find((step) => step.name === 'revenueCat')?.status
+    ).toBe('failed');
+  });
+
   it('does not block startup when lazy is true', async () => {
     mockConfigureAdapter.mockImplementation(() => {
       // synchronous success
@@ -290,6 +499,312 @@ describe('initializeWebApp', () => {
     expect(mockConfigureAdapter).toHaveBeenCalledWith('rc-prod-key');
   });
 
+  it('publishes the RevenueCat status while retrying', async () => {
+    mockConfigureAdapter.mockImplementationOnce(() => {
+      throw new Error('transient');
+    });
+    const statuses: string[] = [];
+    subscribeRevenueCat((state) => statuses.push(state.status));
+
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', lazy: true },
+    });
+    const ready = whenRevenueCatReady();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(ready).resolves.toBeUndefined();
+    expect(statuses).toEqual(['loading', 'retrying', 'retrying', 'ready']);
+    expect(getRevenueCatState()).toEqual({ status: 'ready', attempts: 2 });
+  });
+
+  it('randomizes the retry delay', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    mockConfigureAdapter.mockImplementationOnce(() => {
+      throw new Error('transient');
+    });
+
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', lazy: true, retryJitter: 0.5 },
+    });
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(getRevenueCatState().status).toBe('ready');
+    vi.mocked(Math.random).mockRestore();
+  });
+
+  it('retries on demand after RevenueCat failed', async () => {
+    mockConfigureAdapter.mockImplementationOnce(() => {
+      throw new Error('offline');
+    });
+
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', maxRetries: 0 },
+    });
+    expect(getRevenueCatState()).toEqual(
+      expect.objectContaining({ status: 'failed', error: new Error('offline') })
+    );
+    await expect(whenRevenueCatReady()).rejects.toThrow('offline');
+
+    await retryRevenueCat();
+
+    expect(getRevenueCatState().status).toBe('ready');
+    expect(mockConfigureAdapter).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips the back-off wait when retried manually', async () => {
+    mockConfigureAdapter.mockImplementationOnce(() => {
+      throw new Error('transient');
+    });
+
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', lazy: true },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getRevenueCatState().status).toBe('retrying');
+
+    await retryRevenueCat();
+
+    expect(getRevenueCatState().status).toBe('ready');
+  });
+
+  it('cancels RevenueCat initialization with an AbortSignal', async () => {
+    mockConfigureAdapter.mockImplementation(() => {
+      throw new Error('always fails');
+    });
+    const controller = new AbortController();
+
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: {
+        apiKey: 'rc-prod-key',
+        lazy: true,
+        signal: controller.signal,
+      },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort('user left');
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(mockConfigureAdapter).toHaveBeenCalledOnce();
+    expect(getRevenueCatState()).toEqual({
+      status: 'failed',
+      attempts: 1,
+      error: 'user left',
+    });
+  });
+
+  it('rejects retryRevenueCat when RevenueCat is not configured', async () => {
+    await initializeWebApp({ firebaseConfig });
+
+    await expect(retryRevenueCat()).rejects.toThrow(
+      'RevenueCat is not configured'
+    );
+    expect(getRevenueCatState().status).toBe('idle');
+  });
+
+  it('waits for the first use in onDemand mode', async () => {
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', onDemand: true },
+    });
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(mockConfigureAdapter).not.toHaveBeenCalled();
+    expect(getRevenueCatState().status).toBe('idle');
+
+    const [first, second] = await Promise.all([
+      loadRevenueCat(),
+      loadRevenueCat(),
+    ]);
+
+    expect(mockConfigureAdapter).toHaveBeenCalledOnce();
+    expect(typeof first.createRevenueCatAdapter).toBe('function');
+    expect(typeof second.createRevenueCatAdapter).toBe('function');
+  });
+
+  it('rejects loadRevenueCat when initialization is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: {
+        apiKey: 'rc-prod-key',
+        onDemand: true,
+        signal: controller.signal,
+      },
+    });
+
+    await expect(loadRevenueCat()).rejects.toThrow('cancelled');
+    expect(mockConfigureAdapter).not.toHaveBeenCalled();
+    expect(getRevenueCatState().status).toBe('failed');
+  });
+
+  it('rejects loadRevenueCat when torn down during a retry', async () => {
+    mockConfigureAdapter.mockImplementationOnce(() => {
+      throw new Error('transient');
+    });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', onDemand: true },
+    });
+
+    const loading = loadRevenueCat();
+    const rejected = expect(loading).rejects.toThrow('cancelled');
+    await vi.advanceTimersByTimeAsync(0);
+    await teardownWebApp();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await rejected;
+    expect(getRevenueCatState().status).toBe('idle');
+    warn.mockRestore();
+  });
+
+  it('prefetches onDemand RevenueCat when idle', async () => {
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: {
+        apiKey: 'rc-prod-key',
+        onDemand: true,
+        prefetchWhenIdle: true,
+      },
+    });
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(mockConfigureAdapter).toHaveBeenCalledOnce();
+    expect(getRevenueCatState().status).toBe('ready');
+  });
+
+  it('loads onDemand RevenueCat only after subscriptions consent', async () => {
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', onDemand: true },
+      consent: true,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    const loaded = vi.fn();
+    void loadRevenueCat().then(loaded);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockConfigureAdapter).not.toHaveBeenCalled();
+
+    getConsentManager().update({ subscriptions: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockConfigureAdapter).toHaveBeenCalledOnce();
+    expect(loaded).toHaveBeenCalledOnce();
+  });
+
+  it('logs in the user from an identity getter', async () => {
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', identity: () => 'user-1' },
+    });
+
+    expect(mockSetUser).toHaveBeenCalledWith('user-1');
+
+    await identifyRevenueCatUser(null);
+
+    expect(mockClearUser).toHaveBeenCalledOnce();
+  });
+
+  it('applies only the latest identity change made while retrying', async () => {
+    mockConfigureAdapter.mockImplementationOnce(() => {
+      throw new Error('transient');
+    });
+    const listeners: ((userId: string | null) => void)[] = [];
+    const identity = {
+      subscribe: (listener: (userId: string | null) => void) => {
+        listeners.push(listener);
+        return () => {};
+      },
+    };
+
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', lazy: true, identity },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    listeners.forEach((listener) => listener('user-1'));
+    listeners.forEach((listener) => listener('user-2'));
+    expect(mockSetUser).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(getRevenueCatState().status).toBe('ready');
+    expect(mockSetUser).toHaveBeenCalledOnce();
+    expect(mockSetUser).toHaveBeenCalledWith('user-2');
+
+    listeners.forEach((listener) => listener(null));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockClearUser).toHaveBeenCalledOnce();
+  });
+
+  it('queues sign-ins made before the first onDemand use', async () => {
+    const listeners: ((userId: string | null) => void)[] = [];
+    const identity = {
+      subscribe: (listener: (userId: string | null) => void) => {
+        listeners.push(listener);
+        return () => {};
+      },
+    };
+
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', onDemand: true, identity },
+    });
+    expect(listeners).toHaveLength(1);
+    listeners.forEach((listener) => listener('user-1'));
+
+    await loadRevenueCat();
+
+    expect(mockSetUser).toHaveBeenCalledWith('user-1');
+  });
+
+  it('queues sign-ins made while waiting for subscriptions consent', async () => {
+    const listeners: ((userId: string | null) => void)[] = [];
+    const identity = {
+      subscribe: (listener: (userId: string | null) => void) => {
+        listeners.push(listener);
+        return () => {};
+      },
+    };
+
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', identity },
+      consent: true,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    listeners.forEach((listener) => listener('user-1'));
+
+    getConsentManager().update({ subscriptions: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(listeners).toHaveLength(1);
+    expect(mockSetUser).toHaveBeenCalledWith('user-1');
+  });
+
+  it('stops following the identity source on teardown', async () => {
+    const unsubscribe = vi.fn();
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: {
+        apiKey: 'rc-prod-key',
+        identity: { subscribe: () => unsubscribe },
+      },
+    });
+
+    await teardownWebApp();
+
+    expect(unsubscribe).toHaveBeenCalledOnce();
+  });
+
   it('skips RevenueCat when config is not provided', async () => {
     await initializeWebApp({ firebaseConfig });
 
@@ -305,6 +820,13 @@ describe('initializeWebApp', () => {
     const initI18n = vi.fn();
     await initializeWebApp({ firebaseConfig, initializeI18n: initI18n });
     expect(initI18n).toHaveBeenCalledOnce();
+    expect(setInfoTranslator).not.toHaveBeenCalled();
+  });
+
+  it('registers the translator returned by initializeI18n', async () => {
+    const translate = (key: string) => `translated:${key}`;
+    await initializeWebApp({ firebaseConfig, initializeI18n: () => translate });
+    expect(setInfoTranslator).toHaveBeenCalledWith(translate);
   });
 
   it('does not call initializeI18n when not provided', async () => {
@@ -355,4 +877,374 @@ describe('initializeWebApp', () => {
     // Should not throw
     await initializeWebApp({ firebaseConfig });
   });
+
+  // -----------------------------------------------------------------------
+  // Idempotency and teardown
+  // -----------------------------------------------------------------------
+
+  it('runs the steps only once', async () => {
+    const first = await initializeWebAppWithReport({ firebaseConfig });
+    const second = await initializeWebAppWithReport({ firebaseConfig });
+
+    expect(first.alreadyInitialized).toBe(false);
+    expect(second.alreadyInitialized).toBe(true);
+    expect(second.steps).toEqual(first.steps);
+    expect(initializeStorageService).toHaveBeenCalledOnce();
+    expect(initializeInfoService).toHaveBeenCalledOnce();
+  });
+
+  it('shares an initialization still in progress', async () => {
+    const first = initializeWebApp({ firebaseConfig });
+    const second = initializeWebApp({ firebaseConfig });
+
+    expect(await second).toBe(await first);
+    expect(initializeFirebaseService).toHaveBeenCalledOnce();
+  });
+
+  it('allows retrying a failed initialization', async () => {
+    vi.mocked(initializeFirebaseService).mockImplementationOnce(() => {
+      throw new Error('bad config');
+    });
+
+    await expect(initializeWebApp({ firebaseConfig })).rejects.toThrow(
+      'bad config'
+    );
+    const report = await initializeWebAppWithReport({ firebaseConfig });
+
+    expect(report.ok).toBe(true);
+    expect(report.alreadyInitialized).toBe(false);
+  });
+
+  it('runs again after teardownWebApp', async () => {
+    await initializeWebApp({ firebaseConfig });
+    await teardownWebApp();
+    await initializeWebApp({ firebaseConfig });
+
+    expect(initializeStorageService).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops a running initialization on teardown', async () => {
+    const load = deferredLoad();
+    const manager = new ConsentManager({
+      storage: {
+        getItem: () => load.promise,
+        setItem: vi.fn(),
+        removeItem: vi.fn(),
+      },
+    });
+    const onReport = vi.fn();
+
+    const running = initializeWebApp({
+      firebaseConfig,
+      consent: { manager },
+      onReport,
+    });
+    const rejected = expect(running).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    await teardownWebApp();
+    load.resolve(null);
+    await rejected;
+
+    expect(initializeFirebaseService).not.toHaveBeenCalled();
+    expect(() => getConsentManager()).toThrow();
+    const { steps } = onReport.mock.calls[0]?.[0] as WebAppInitReport;
+    expect(steps.find((step) => step.name === 'consent')?.status).toBe(
+      'deferred'
+    );
+    expect(steps.find((step) => step.name === 'firebase')?.status).toBe(
+      'skipped'
+    );
+  });
+
+  it('resets singletons on teardown', async () => {
+    await initializeWebApp({ firebaseConfig, registerServiceWorker: true });
+    await teardownWebApp();
+
+    expect(resetInfoService).toHaveBeenCalledOnce();
+    expect(setInfoTranslator).toHaveBeenCalledWith(null);
+    expect(resetAnalyticsService).toHaveBeenCalledOnce();
+    expect(resetFirebaseService).toHaveBeenCalledOnce();
+    expect(stopServiceWorkerUpdateChecks).toHaveBeenCalledOnce();
+  });
+
+  // -----------------------------------------------------------------------
+  // Consent
+  // -----------------------------------------------------------------------
+
+  it('keeps analytics and messaging off until consent is granted', async () => {
+    const analytics = await initializeWebApp({ firebaseConfig, consent: true });
+
+    expect(initializeFirebaseService).toHaveBeenCalledWith(firebaseConfig, {
+      enableAnalytics: false,
+      enableMessaging: false,
+    });
+    expect(initializeFirebaseAnalytics).not.toHaveBeenCalled();
+
+    analytics.trackEvent('app_open', { page: '/' });
+    expect(mockAnalyticsService.trackEvent).not.toHaveBeenCalled();
+
+    getConsentManager().update({ analytics: true });
+
+    expect(resetFirebaseService).toHaveBeenCalledOnce();
+    expect(initializeFirebaseService).toHaveBeenLastCalledWith(firebaseConfig, {
+      enableMessaging: false,
+    });
+    expect(initializeFirebaseAnalytics).toHaveBeenCalledOnce();
+    expect(mockAnalyticsService.trackEvent).toHaveBeenCalledWith('app_open', {
+      page: '/',
+    });
+  });
+
+  it('restores saved consent choices from localStorage', async () => {
+    localStorage.setItem(
+      'sudobility.consent',
+      JSON.stringify({ analytics: true, messaging: true })
+    );
+    const firebaseInitOptions = { enableAnalytics: true };
+
+    await initializeWebApp({
+      firebaseConfig,
+      firebaseInitOptions,
+      consent: true,
+    });
+
+    expect(mockStorageService.getItem).not.toHaveBeenCalledWith(
+      'sudobility.consent'
+    );
+    expect(initializeFirebaseService).toHaveBeenCalledWith(
+      firebaseConfig,
+      firebaseInitOptions
+    );
+    expect(initializeFirebaseAnalytics).toHaveBeenCalledOnce();
+  });
+
+  it('clears analytics when consent is revoked', async () => {
+    await initializeWebApp({
+      firebaseConfig,
+      consent: { defaults: { analytics: true } },
+    });
+
+    getConsentManager().update({ analytics: false });
+
+    expect(resetAnalyticsService).toHaveBeenCalledOnce();
+    expect(localStorage.getItem('sudobility.consent')).toBe(
+      JSON.stringify({
+        analytics: false,
+        messaging: false,
+        subscriptions: false,
+      })
+    );
+  });
+
+  it('switches analytics collection off and clears the user id on revoke', async () => {
+    const gtag = vi.fn();
+    const globals = window as unknown as Record<string, unknown>;
+    globals['gtag'] = gtag;
+
+    await initializeWebApp({
+      firebaseConfig: { ...firebaseConfig, measurementId: 'G-TEST' },
+      consent: { defaults: { analytics: true } },
+    });
+    expect(globals['ga-disable-G-TEST']).toBe(false);
+
+    getConsentManager().update({ analytics: false });
+
+    expect(gtag).toHaveBeenCalledWith('config', 'G-TEST', {
+      update: true,
+      user_id: null,
+      user_properties: { user_hash: null },
+    });
+    expect(globals['ga-disable-G-TEST']).toBe(true);
+
+    getConsentManager().update({ analytics: true });
+    expect(globals['ga-disable-G-TEST']).toBe(false);
+    delete globals['gtag'];
+    delete globals['ga-disable-G-TEST'];
+  });
+
+  it('deletes the FCM token when messaging consent is revoked', async () => {
+    await initializeWebApp({
+      firebaseConfig,
+      consent: { defaults: { messaging: true } },
+    });
+
+    getConsentManager().update({ analytics: true });
+    expect(mockMessaging.deleteToken).not.toHaveBeenCalled();
+
+    getConsentManager().update({ messaging: false });
+    expect(mockMessaging.deleteToken).toHaveBeenCalledOnce();
+  });
+
+  it('logs the RevenueCat user out when subscriptions consent is revoked', async () => {
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key', identity: () => 'user-1' },
+      consent: { defaults: { subscriptions: true } },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockSetUser).toHaveBeenCalledWith('user-1');
+    expect(getRevenueCatState().status).toBe('ready');
+
+    getConsentManager().update({ subscriptions: false });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockClearUser).toHaveBeenCalledOnce();
+    expect(mockResetSubscription).toHaveBeenCalledOnce();
+    expect(getRevenueCatState().status).toBe('idle');
+
+    mockConfigureAdapter.mockClear();
+    getConsentManager().update({ subscriptions: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockConfigureAdapter).toHaveBeenCalledOnce();
+    expect(mockSetUser).toHaveBeenCalledTimes(2);
+    expect(getRevenueCatState().status).toBe('ready');
+  });
+
+  it('does not start RevenueCat when torn down while waiting for consent', async () => {
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key' },
+      consent: true,
+    });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await teardownWebApp();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockConfigureAdapter).not.toHaveBeenCalled();
+    expect(error.mock.calls).toEqual([]);
+    error.mockRestore();
+  });
+
+  it('waits for subscriptions consent before initialising RevenueCat', async () => {
+    const report = await initializeWebAppWithReport({
+      firebaseConfig,
+      revenueCatConfig: { apiKey: 'rc-prod-key' },
+      consent: true,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(
+      report.steps.find((step) => step.name === 'revenueCat')?.status
+    ).toBe('deferred');
+    expect(mockConfigureAdapter).not.toHaveBeenCalled();
+
+    getConsentManager().update({ subscriptions: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockConfigureAdapter).toHaveBeenCalledWith('rc-prod-key');
+  });
+
+  it('stops following consent changes after teardown', async () => {
+    const manager = new ConsentManager();
+    await initializeWebApp({ firebaseConfig, consent: { manager } });
+    await teardownWebApp();
+    vi.clearAllMocks();
+
+    manager.grantAll();
+
+    expect(initializeFirebaseService).not.toHaveBeenCalled();
+    expect(initializeFirebaseAnalytics).not.toHaveBeenCalled();
+  });
+
+  /** Make the mocked Firebase Analytics read its AnalyticsService once. */
+  const useAnalyticsGetter = () => {
+    vi.mocked(initializeFirebaseAnalytics).mockImplementation((getService) => {
+      getService?.();
+      return mockAnalyticsService as never;
+    });
+  };
+
+  it('sends analytics queued offline in an earlier visit', async () => {
+    useAnalyticsGetter();
+    mockStorageService.getItem.mockReturnValueOnce(
+      JSON.stringify([{ name: 'offline_event', timestamp: 1 }])
+    );
+
+    await initializeWebApp({ firebaseConfig, analyticsQueue: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockStorageService.getItem).toHaveBeenCalledWith(
+      'sudobility.analytics.queue'
+    );
+    expect(mockFirebaseAnalytics.logEvent).toHaveBeenCalledWith(
+      'offline_event',
+      undefined
+    );
+  });
+
+  it('queues analytics offline only once consent is granted', async () => {
+    useAnalyticsGetter();
+    const analytics = await initializeWebApp({
+      firebaseConfig,
+      consent: true,
+      analyticsQueue: true,
+    });
+
+    analytics.trackEvent('before_consent');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(initializeFirebaseAnalytics).not.toHaveBeenCalled();
+    expect(mockStorageService.setItem).not.toHaveBeenCalledWith(
+      'sudobility.analytics.queue',
+      expect.anything()
+    );
+
+    getConsentManager().update({ analytics: true });
+
+    expect(initializeFirebaseAnalytics).toHaveBeenCalledWith(
+      expect.any(Function)
+    );
+    expect(mockAnalyticsService.trackEvent).toHaveBeenCalledWith(
+      'before_consent'
+    );
+
+    getConsentManager().update({ analytics: false });
+
+    expect(mockStorageService.removeItem).toHaveBeenCalledWith(
+      'sudobility.analytics.queue'
+    );
+  });
+
+  it('tracks page views until teardown', async () => {
+    await initializeWebApp({ firebaseConfig, pageViews: true });
+    expect(mockAnalyticsService.trackEvent).toHaveBeenCalledWith(
+      'page_view',
+      expect.objectContaining({ page_path: '/' })
+    );
+
+    await teardownWebApp();
+    window.history.pushState(null, '', '/after-teardown');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockAnalyticsService.trackEvent).toHaveBeenCalledOnce();
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('aborts RevenueCat retries on teardown', async () => {
+    mockConfigureAdapter.mockImplementation(() => {
+      throw new Error('always fails');
+    });
+    const onError = vi.fn();
+
+    await initializeWebApp({
+      firebaseConfig,
+      revenueCatConfig: {
+        apiKey: 'rc-prod-key',
+        maxRetries: 3,
+        lazy: true,
+        onError,
+      },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockConfigureAdapter).toHaveBeenCalledOnce();
+
+    await teardownWebApp();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(mockConfigureAdapter).toHaveBeenCalledOnce();
+    expect(onError).not.toHaveBeenCalled();
+    expect(getRevenueCatState().status).toBe('idle');
+  });
 });
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { normalizePagePath, trackPageViews } from '../src/analytics/index.js';
+
+/** `[name, params]` of every tracked event. */
+function logged(trackEvent: ReturnType<typeof vi.fn>) {
+  return trackEvent.mock.calls.map((call: unknown[]) => [call[0], call[1]]);
+}
+
+// ---------------------------------------------------------------------------
+// normalizePagePath
+// ---------------------------------------------------------------------------
+
+describe('normalizePagePath', () => {
+  it('replaces numeric, UUID and hash segments by default', () => {
+    expect(normalizePagePath('/users/42/orders')).toBe('/users/:id/orders');
+    expect(
+      normalizePagePath('/docs/3f2b8c1e-1d2a-4b5c-8d9e-0a1b2c3d4e5f')
+    ).toBe('/docs/:id');
+    expect(
+      normalizePagePath('/commits/9fceb02d0ae598e95dc970b74767f19372d61af8')
+    ).toBe('/commits/:id');
+    expect(normalizePagePath('/settings/profile')).toBe('/settings/profile');
+  });
+
+  it('reports paths matching a route as the route', () => {
+    const routes = ['/posts/:slug', '/posts/:slug/edit'];
+
+    expect(normalizePagePath('/posts/hello-world', { routes })).toBe(
+      '/posts/:slug'
+    );
+    expect(normalizePagePath('/posts/hello-world/edit', { routes })).toBe(
+      '/posts/:slug/edit'
+    );
+    expect(normalizePagePath('/posts', { routes })).toBe('/posts');
+  });
+
+  it('does not match route params against empty segments', () => {
+    const routes = ['/posts/:slug', '/posts/:slug/edit'];
+
+    expect(normalizePagePath('/posts/', { routes })).toBe('/posts/');
+    expect(normalizePagePath('/posts//edit', { routes })).toBe('/posts//edit');
+  });
+
+  it('uses custom segment patterns', () => {
+    expect(
+      normalizePagePath('/u/@ada/7', {
+        segmentPatterns: [{ pattern: /^@/, replacement: ':handle' }],
+      })
+    ).toBe('/u/:handle/7');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// trackPageViews
+// ---------------------------------------------------------------------------
+
+describe('trackPageViews', () => {
+  let stop: () => void = () => {};
+  const trackEvent = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    trackEvent.mockReset();
+    window.history.replaceState(null, '', '/');
+    document.title = 'Home';
+  });
+
+  afterEach(() => {
+    stop();
+    vi.useRealTimers();
+  });
+
+  it('logs the initial page and each navigation with referrer and engagement time', async () => {
+    stop = trackPageViews({ trackEvent });
+    vi.advanceTimersByTime(1500);
+
+    window.history.pushState(null, '', '/users/42?tab=posts');
+    document.title = 'Profile';
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(logged(trackEvent)).toEqual([
+      [
+        'page_view',
+        {
+          page_path: '/',
+          page_location: 'http://localhost:3000/',
+          page_title: 'Home',
+        },
+      ],
+      [
+        'page_view',
+        {
+          page_path: '/users/:id',
+          page_location: 'http://localhost:3000/users/42?tab=posts',
+          page_title: 'Profile',
+          page_referrer: 'http://localhost:3000/',
+          engagement_time_msec: 1500,
+        },
+      ],
+    ]);
+  });
+
+  it('tracks replaceState and popstate navigations', async () => {
+    stop = trackPageViews({ trackEvent }, { trackInitialPage: false });
+
+    window.history.replaceState(null, '', '/settings');
+    await vi.advanceTimersByTimeAsync(0);
+    window.history.replaceState(null, '', '/');
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(trackEvent.mock.calls.map((call: unknown[]) => call[1])).toEqual([
+      expect.objectContaining({ page_path: '/settings' }),
+      expect.objectContaining({ page_path: '/' }),
+    ]);
+  });
+
+  it('skips navigations that keep the URL path', async () => {
+    stop = trackPageViews({ trackEvent });
+
+    window.history.pushState(null, '', '/users/1');
+    await vi.advanceTimersByTimeAsync(0);
+    window.history.pushState(null, '', '/users/2');
+    await vi.advanceTimersByTimeAsync(0);
+    window.history.replaceState({ scroll: 100 }, '', '/users/2?sort=asc');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(trackEvent.mock.calls.map((call: unknown[]) => call[1])).toEqual([
+      expect.objectContaining({ page_path: '/' }),
+      expect.objectContaining({
+        page_path: '/users/:id',
+        page_location: 'http://localhost:3000/users/1',
+      }),
+      expect.objectContaining({
+        page_path: '/users/:id',
+        page_location: 'http://localhost:3000/users/2',
+      }),
+    ]);
+  });
+
+  it('tells query strings apart with includeSearch', async () => {
+    stop = trackPageViews(
+      { trackEvent },
+      { includeSearch: true, trackInitialPage: false }
+    );
+
+    window.history.pushState(null, '', '/search?q=a');
+    await vi.advanceTimersByTimeAsync(0);
+    window.history.pushState(null, '', '/search?q=b');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(trackEvent.mock.calls.map((call: unknown[]) => call[1])).toEqual([
+      expect.objectContaining({ page_path: '/search?q=a' }),
+      expect.objectContaining({ page_path: '/search?q=b' }),
+    ]);
+  });
+
+  it('skips the open page with includeSearch and trackInitialPage off', async () => {
+    window.history.replaceState(null, '', '/search?q=a');
+    stop = trackPageViews(
+      { trackEvent },
+      { includeSearch: true, trackInitialPage: false }
+    );
+
+    window.history.replaceState({ scroll: 100 }, '', '/search?q=a');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(trackEvent).not.toHaveBeenCalled();
+  });
+
+  it('adds extra params under a custom event name', () => {
+    stop = trackPageViews(
+      { trackEvent },
+      { eventName: 'screen_view', params: (path) => ({ section: path }) }
+    );
+
+    expect(trackEvent).toHaveBeenCalledWith(
+      'screen_view',
+      expect.objectContaining({ section: '/', page_path: '/' })
+    );
+  });
+
+  it('restores the History API when stopped', async () => {
+    const { pushState, replaceState } = window.history;
+    stop = trackPageViews({ trackEvent }, { trackInitialPage: false });
+    expect(window.history.pushState).not.toBe(pushState);
+
+    stop();
+    window.history.pushState(null, '', '/later');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(window.history.pushState).toBe(pushState);
+    expect(window.history.replaceState).toBe(replaceState);
+    expect(trackEvent).not.toHaveBeenCalled();
+  });
+});
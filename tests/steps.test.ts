@@ -0,0 +1,378 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  runWebAppSteps,
+  sortWebAppSteps,
+  type WebAppInitReport,
+  type WebAppStep,
+} from '../src/initialize/steps.js';
+import type { WebAppInitOptions } from '../src/initialize/initialize.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const options = {} as WebAppInitOptions;
+
+/** A promise plus the function resolving it. */
+function deferred<T = void>() {
+  let resolve: (value: T) => void = () => {};
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+/** Step recording its name in `log` when it runs. */
+function step(
+  name: string,
+  log: string[],
+  extra: Partial<WebAppStep> = {}
+): WebAppStep {
+  return {
+    name,
+    run: () => {
+      log.push(name);
+      return name;
+    },
+    ...extra,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('sortWebAppSteps', () => {
+  it('keeps declaration order when dependencies allow it', () => {
+    const log: string[] = [];
+    const sorted = sortWebAppSteps([
+      step('a', log),
+      step('b', log),
+      step('c', log),
+    ]);
+
+    expect(sorted.map((s) => s.name)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('moves steps after their dependencies', () => {
+    const log: string[] = [];
+    const sorted = sortWebAppSteps([
+      step('auth', log, { dependsOn: ['firebase'] }),
+      step('storage', log),
+      step('firebase', log),
+    ]);
+
+    expect(sorted.map((s) => s.name)).toEqual(['storage', 'firebase', 'auth']);
+  });
+
+  it('rejects unknown dependencies', () => {
+    expect(() =>
+      sortWebAppSteps([step('auth', [], { dependsOn: ['firebase'] })])
+    ).toThrow('Initialization step "auth" depends on unknown step "firebase"');
+  });
+
+  it('rejects duplicate names', () => {
+    expect(() => sortWebAppSteps([step('a', []), step('a', [])])).toThrow(
+      'Duplicate initialization step "a"'
+    );
+  });
+
+  it('rejects cycles', () => {
+    expect(() =>
+      sortWebAppSteps([
+        step('a', [], { dependsOn: ['b'] }),
+        step('b', [], { dependsOn: ['a'] }),
+      ])
+    ).toThrow('Initialization steps have a dependency cycle: "a", "b"');
+  });
+});
+
+describe('runWebAppSteps', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs synchronous steps in dependency order', async () => {
+    const log: string[] = [];
+
+    const { results } = await runWebAppSteps(
+      [
+        step('storage', log),
+        step('firebase', log),
+        step('analytics', log, { dependsOn: ['firebase'] }),
+        step('network', log),
+      ],
+      options
+    );
+
+    expect(log).toEqual(['storage', 'firebase', 'analytics', 'network']);
+    expect(results.get('analytics')).toBe('analytics');
+  });
+
+  it('runs independent async steps in parallel', async () => {
+    const log: string[] = [];
+    const slow = deferred();
+
+    const running = runWebAppSteps(
+      [
+        { name: 'slow', run: () => slow.promise },
+        step('independent', log),
+        step('dependent', log, { dependsOn: ['slow'] }),
+      ],
+      options
+    );
+    await Promise.resolve();
+
+    expect(log).toEqual(['independent']);
+
+    slow.resolve();
+    await running;
+    expect(log).toEqual(['independent', 'dependent']);
+  });
+
+  it('passes earlier results to later steps', async () => {
+    const seen = vi.fn();
+
+    await runWebAppSteps(
+      [
+        { name: 'config', run: () => Promise.resolve({ flag: true }) },
+        {
+          name: 'flags',
+          dependsOn: ['config'],
+          run: ({ results }) => seen(results.get('config')),
+        },
+      ],
+      options
+    );
+
+    expect(seen).toHaveBeenCalledWith({ flag: true });
+  });
+
+  it('does not wait for lazy steps', async () => {
+    const log: string[] = [];
+    const lazy = deferred();
+
+    await runWebAppSteps(
+      [
+        { name: 'lazy', lazy: true, run: () => lazy.promise },
+        step('after', log, { dependsOn: ['lazy'], lazy: true }),
+        step('eager', log),
+      ],
+      options
+    );
+
+    expect(log).toEqual(['eager']);
+    lazy.resolve();
+    await vi.waitFor(() => expect(log).toEqual(['eager', 'after']));
+  });
+
+  it('skips disabled steps and their dependents', async () => {
+    const log: string[] = [];
+
+    await runWebAppSteps(
+      [
+        step('off', log, { enabled: false }),
+        step('child', log, { dependsOn: ['off'] }),
+        step('other', log),
+      ],
+      options
+    );
+
+    expect(log).toEqual(['other']);
+  });
+
+  it('rejects with the error of a failing step', async () => {
+    const log: string[] = [];
+    const error = new Error('firebase down');
+
+    await expect(
+      runWebAppSteps(
+        [
+          {
+            name: 'firebase',
+            run: () => {
+              throw error;
+            },
+          },
+          step('analytics', log, { dependsOn: ['firebase'] }),
+        ],
+        options
+      )
+    ).rejects.toBe(error);
+    expect(log).toEqual([]);
+  });
+
+  it('logs lazy failures and skips their dependents', async () => {
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    const log: string[] = [];
+
+    await runWebAppSteps(
+      [
+        {
+          name: 'lazy',
+          lazy: true,
+          run: () => Promise.reject(new Error('nope')),
+        },
+        step('child', log, { dependsOn: ['lazy'], lazy: true }),
+      ],
+      options
+    );
+
+    await vi.waitFor(() =>
+      expect(consoleError).toHaveBeenCalledWith(
+        'Initialization step "lazy" failed:',
+        expect.any(Error)
+      )
+    );
+    expect(log).toEqual([]);
+  });
+
+  // -----------------------------------------------------------------------
+  // Report
+  // -----------------------------------------------------------------------
+
+  it('reports the status and duration of every step', async () => {
+    vi.useFakeTimers();
+    const log: string[] = [];
+    const lazy = deferred();
+
+    const running = runWebAppSteps(
+      [
+        {
+          name: 'slow',
+          run: () => new Promise((resolve) => setTimeout(resolve, 250)),
+        },
+        step('off', log, { enabled: false }),
+        { name: 'background', lazy: true, run: () => lazy.promise },
+      ],
+      options
+    );
+    await vi.advanceTimersByTimeAsync(250);
+    const report = await running;
+    vi.useRealTimers();
+
+    expect(report.ok).toBe(true);
+    expect(report.durationMs).toBe(250);
+    expect(report.steps).toEqual([
+      { name: 'slow', status: 'ok', durationMs: 250 },
+      { name: 'off', status: 'skipped' },
+      { name: 'background', status: 'deferred' },
+    ]);
+  });
+
+  it('continues past failures with continueOnError', async () => {
+    const log: string[] = [];
+    const error = new Error('flags down');
+
+    const report = await runWebAppSteps(
+      [
+        {
+          name: 'flags',
+          run: () => Promise.reject(error),
+        },
+        step('child', log, { dependsOn: ['flags'] }),
+        step('other', log),
+      ],
+      options,
+      { continueOnError: true }
+    );
+
+    expect(log).toEqual(['other']);
+    expect(report.ok).toBe(false);
+    expect(report.steps.map((s) => [s.name, s.status])).toEqual([
+      ['flags', 'failed'],
+      ['child', 'skipped'],
+      ['other', 'ok'],
+    ]);
+    expect(report.steps[0]?.error).toBe(error);
+  });
+
+  it('still fails on critical steps with continueOnError', async () => {
+    const error = new Error('storage down');
+    const onReport = vi.fn();
+
+    await expect(
+      runWebAppSteps(
+        [
+          {
+            name: 'storage',
+            critical: true,
+            run: () => {
+              throw error;
+            },
+          },
+        ],
+        options,
+        { continueOnError: true, onReport }
+      )
+    ).rejects.toBe(error);
+    expect(onReport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ok: false,
+        steps: [expect.objectContaining({ name: 'storage', status: 'failed' })],
+      })
+    );
+  });
+
+  it('stops scheduling once the signal is aborted', async () => {
+    const log: string[] = [];
+    const slow = deferred();
+    const controller = new AbortController();
+    const onReport = vi.fn();
+
+    const running = runWebAppSteps(
+      [
+        { name: 'consent', run: () => slow.promise },
+        step('firebase', log, { dependsOn: ['consent'] }),
+      ],
+      options,
+      { signal: controller.signal, onReport }
+    );
+    controller.abort(new Error('torn down'));
+    slow.resolve();
+
+    await expect(running).rejects.toThrow('torn down');
+    await slow.promise;
+    expect(log).toEqual([]);
+    expect(onReport).toHaveBeenCalledOnce();
+    expect(
+      (onReport.mock.calls[0]?.[0] as WebAppInitReport).steps.map((s) => [
+        s.name,
+        s.status,
+      ])
+    ).toEqual([
+      ['consent', 'deferred'],
+      ['firebase', 'skipped'],
+    ]);
+  });
+
+  it('runs nothing when the signal is already aborted', async () => {
+    const log: string[] = [];
+    const controller = new AbortController();
+    controller.abort(new Error('torn down'));
+
+    await expect(
+      runWebAppSteps([step('storage', log)], options, {
+        signal: controller.signal,
+      })
+    ).rejects.toThrow('torn down');
+    expect(log).toEqual([]);
+  });
+
+  it('continues past non-critical steps by default', async () => {
+    const report = await runWebAppSteps(
+      [
+        {
+          name: 'optional',
+          critical: false,
+          run: () => {
+            throw new Error('nope');
+          },
+        },
+      ],
+      options
+    );
+
+    expect(report.steps[0]?.status).toBe('failed');
+  });
+});
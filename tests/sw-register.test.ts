@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   registerServiceWorker,
+  stopServiceWorkerUpdateChecks,
   unregisterServiceWorker,
   type ServiceWorkerState,
 } from '../src/sw/register.js';
@@ -181,6 +182,21 @@ describe('registerServiceWorker', () => {
     expect(states).toEqual(['registering', 'registered']);
   });
 
+  it('checks for updates daily until stopped', async () => {
+    const reg = createMockRegistration();
+    setServiceWorker(vi.fn().mockResolvedValue(reg));
+
+    registerServiceWorker({ forceEnable: true });
+    await fireLoad();
+
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+    expect(reg.update).toHaveBeenCalledOnce();
+
+    stopServiceWorkerUpdateChecks();
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+    expect(reg.update).toHaveBeenCalledOnce();
+  });
+
   // -- Retry logic --------------------------------------------------------
 
   it('retries on failure with exponential back-off', async () => {
@@ -183,4 +183,57 @@ describe('serviceWorkerPlugin', () => {
       expect(result!.body).toContain('firebase');
     });
   });
+
+  // -----------------------------------------------------------------------
+  // Env injection
+  // -----------------------------------------------------------------------
+
+  describe('env injection', () => {
+    const env = {
+      MODE: 'staging',
+      VITE_FIREBASE_API_KEY: 'key',
+      VITE_FIREBASE_AUTH_DOMAIN: 'app.firebaseapp.com',
+      VITE_FIREBASE_PROJECT_ID: 'app',
+      VITE_FIREBASE_PROJECT_ID_STAGING: 'app-staging',
+      VITE_FIREBASE_STORAGE_BUCKET: 'app.appspot.com',
+      VITE_FIREBASE_APP_ID: '1:2:web:3',
+      VITE_FIREBASE_MESSAGING_SENDER_ID: '2',
+    };
+
+    it('injects the env Vite resolved into the messaging worker', () => {
+      const plugin = serviceWorkerPlugin({ includeFirebaseMessaging: true });
+      plugin.configResolved({ env });
+      const source = runGenerateBundle(plugin)['firebase-messaging-sw.js']!
+        .source;
+
+      expect(source).toContain('projectId: "app-staging"');
+      expect(source).toContain('measurementId: undefined');
+      expect(source).not.toMatch(/process\.env\.VITE_FIREBASE_API_KEY/);
+    });
+
+    it('prefers the env option over the resolved config', () => {
+      const plugin = serviceWorkerPlugin({
+        includeFirebaseMessaging: true,
+        env,
+        environment: 'production',
+      });
+      plugin.configResolved({ env: {} });
+      const dev = setupDevServer(plugin);
+
+      expect(dev.request('/firebase-messaging-sw.js')!.body).toContain(
+        'projectId: "app"'
+      );
+    });
+
+    it('requires the messaging sender id', () => {
+      const plugin = serviceWorkerPlugin({
+        includeFirebaseMessaging: true,
+        env: { ...env, VITE_FIREBASE_MESSAGING_SENDER_ID: '' },
+      });
+
+      expect(() => runGenerateBundle(plugin)).toThrow(
+        'VITE_FIREBASE_MESSAGING_SENDER_ID'
+      );
+    });
+  });
 });